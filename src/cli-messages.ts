@@ -0,0 +1,287 @@
+import { Locale } from "./lib/locale.js";
+
+const en = {
+  invalidValue: (name: string, value: string, expected: string[]) =>
+    `Invalid ${name}: ${value} (expected one of ${expected.join(", ")})`,
+  invalidDays: (name: string) => `${name} must be a non-negative number of days`,
+  notSet: (name: string) => `${name} is not set`,
+  notSetHint: "Set it via environment variable, .env file, or global config",
+  globalConfigPaths: (paths: string[]) => `Global config paths: ${paths.join(", ")}`,
+  notSetFor: (name: string, notifierType: string) =>
+    `${name} is not set (required for NOTIFIER_TYPE=${notifierType})`,
+  invalidJson: (name: string) => `${name} must be valid JSON`,
+  invalidStatus: (invalid: string[], statuses: string[]) =>
+    `Invalid --status: ${invalid.join(", ")} (expected ${statuses.join(", ")} or all)`,
+  invalidProgress: (error: string) => `${error} (--current / --total)`,
+  invalidDuration: (name: string) => `--${name} must be a duration like 30d, 12h, 90m`,
+  attachTailRequiresFile: "--attach-tail requires --file",
+  invalidAttachTail: "--attach-tail must be a positive integer",
+  fileNotFound: (path: string) => `File not found: ${path}`,
+  attachFailed: (path: string, message: string) => `Failed to attach ${path}: ${message}`,
+  invalidLimit: "--limit must be a positive integer",
+  invalidListFormat: "--format must be table or json",
+  invalidExportFormat: (formats: string[]) => `--format must be one of ${formats.join(", ")}`,
+  noJobsFound: "No jobs found",
+  jobIdRequired: "--job-id is required (or set SLACK_THREAD_JOB_ID)",
+  jobNotFound: (jobId: string) => `Job not found: ${jobId}`,
+  statePathRequired: (command: string) => `THREAD_STATE_PATH is required for ${command}`,
+  postFailed: "Failed to post to Slack",
+  threadCreateFailed: "Failed to create Slack thread",
+  messageRequired: "--message is required for update command",
+  errorRequired: "--error is required for fail command",
+  unknownCommand: (command: string) => `Unknown command: ${command}`,
+  defaultWaitingReason: "Waiting for permission or user input",
+  // Claude Code の Notification イベントの notification_type
+  notificationTypes: {
+    permission_prompt: "Waiting for permission",
+    idle_prompt: "Idle",
+    auth_success: "Authentication succeeded",
+    elicitation_dialog: "Waiting for additional input",
+  } as Record<string, string>,
+  usage: `
+Usage: slack-thread-mcp <command> [options]
+
+Commands:
+  start     Create a new thread for a job
+  update    Post a progress update to the thread
+  waiting   Notify that the process is waiting
+  complete  Mark the job as completed
+  fail      Mark the job as failed
+  flush     Replay queued outbox entries (requires THREAD_STATE_PATH)
+  prune     Remove old thread state (requires THREAD_STATE_PATH)
+  list      List jobs in the thread state (requires THREAD_STATE_PATH)
+  show      Print the full thread state of a job (requires THREAD_STATE_PATH)
+  export    Export a job as a Markdown / HTML / JSON report (requires THREAD_STATE_PATH)
+  help      Show this help message
+
+Options:
+  --stdin             Read JSON from stdin (for Claude Code hooks)
+                      Automatically extracts session_id as job-id
+  --save-env          Save job-id and Slack config to CLAUDE_ENV_FILE
+  --job-id=<id>       Job identifier (or use --stdin / SLACK_THREAD_JOB_ID)
+  --title=<title>     Job title (for start or lazy thread creation)
+  --silent            Don't post to Slack (for start: only save env vars)
+  --message=<msg>     Progress message (required for update)
+  --level=<level>     Message level: info, warn, debug (default: info)
+  --current=<n>       Progress so far, with --total (for update; renders a progress bar and ETA)
+  --total=<n>         Total amount of work (for update)
+  --unit=<unit>       Unit of progress, e.g. resources (for update)
+  --reason=<reason>   Waiting reason (for waiting command)
+  --summary=<text>    Completion summary (for complete command)
+  --git-summary       Add files, lines and commits changed since start (for complete)
+  --error=<text>      Error summary (required for fail)
+  --logs-hint=<text>  Logs location hint (for fail command)
+  --file=<path>       Attach a file to the thread (for update/complete/fail)
+  --attach-tail=<n>   Attach only the last N lines of --file (e.g. a log excerpt)
+  --channel=<ch>      Override default channel (for list: filter by channel)
+  --mention=<bool>    Enable/disable mention (default: true)
+  --meta=<json>       Additional metadata as JSON (for start, kept for lazy creation with --silent)
+                      Merged over the detected repo, branch, commit, worktree and remote
+  --dry-run           Don't call Slack; append payloads to a JSONL file
+                      (for prune: only list the jobs that would be removed)
+  --max-wait=<sec>    Max seconds to wait for Retry-After (for flush, default: 60)
+  --older-than=<dur>  Jobs not updated for this long, e.g. 30d, 12h (for prune/list)
+                      (prune default: THREAD_RETENTION_DAYS or 30d)
+  --newer-than=<dur>  Jobs updated within this period (for list)
+  --status=<list>     Comma-separated statuses, or "all" (for prune/list)
+                      (prune default: completed,failed and placeholders)
+  --format=<fmt>      Output format: table, json (for list, default: table)
+                      markdown, html, json (for export, default: markdown)
+  --output=<path>     Write the report to a file instead of stdout (for export)
+  --limit=<n>         Max number of jobs to list (for list)
+
+Environment Variables:
+  NOTIFIER_TYPE           Backend: slack, slack-webhook, webhook (default: slack)
+  SLACK_BOT_TOKEN         Slack Bot Token (required for slack)
+  SLACK_DEFAULT_CHANNEL   Default channel ID (required for slack)
+  SLACK_API_URL           Slack Web API base URL (e.g. fake-slack server)
+  SLACK_WEBHOOK_URL       Slack Incoming Webhook URL (required for slack-webhook)
+  NOTIFIER_WEBHOOK_URL    JSON webhook endpoint (required for webhook)
+  NOTIFIER_WEBHOOK_HEADERS  Extra HTTP headers for webhook as JSON
+  SLACK_MENTION_USER_IDS  Comma-separated user IDs to mention
+  SLACK_MENTION_GROUP_ID  Group ID to mention
+  SLACK_POST_PREFIX       Prefix for all messages
+  SLACK_PARENT_STATUS     Show job status on the parent message: edit, reactions, both, none (default: edit; no reactions)
+  SLACK_STATUS_REACTIONS  Reaction names per status, e.g. completed=tada,failed=rotating_light
+  SLACK_MESSAGE_TEMPLATES_PATH
+                          JSON file with message templates (overrides messageTemplates)
+  SLACK_MENTION_POLICY_PATH
+                          JSON file with mention rules, quiet hours and working hours (overrides mentionPolicy)
+  SLACK_THREAD_LOCALE     Language of generated text: en, ja (default: ja)
+  THREAD_STATE_PATH       Path to persist thread state (sqlite:<path> for SQLite)
+  THREAD_RETENTION_DAYS   Days to keep completed/failed jobs (default: 30, 0: forever)
+  THREAD_PLACEHOLDER_RETENTION_DAYS
+                          Days to keep jobs whose thread was never created
+                          (default: 7, 0: forever)
+  SLACK_THREAD_JOB_ID     Default job-id (set by --save-env in SessionStart)
+  SLACK_THREAD_DRY_RUN    Set to true to enable dry-run mode
+  SLACK_THREAD_DRY_RUN_PATH  JSONL file for dry-run output
+                          (default: ~/.local/share/slack-thread-mcp/dry-run.jsonl)
+
+Global Config:
+  ~/.config/slack-thread-mcp/config.json
+  ~/.slack-thread-mcp.json
+
+Examples:
+  # Standard usage
+  slack-thread-mcp start --job-id=abc123 --title="Deploy to production"
+  slack-thread-mcp update --job-id=abc123 --message="Building..."
+  slack-thread-mcp complete --job-id=abc123 --summary="Deployed successfully"
+
+  # Claude Code hooks (SessionStart saves job-id, others auto-use it)
+  slack-thread-mcp start --stdin --save-env --title="Task"  # SessionStart
+  slack-thread-mcp update --message="Running"                # Uses SLACK_THREAD_JOB_ID
+  slack-thread-mcp complete --summary="Done"                 # Uses SLACK_THREAD_JOB_ID
+
+  # Attach the end of a build log when a job fails
+  slack-thread-mcp fail --job-id=abc123 --error="Build failed" --file=build.log --attach-tail=100
+
+  # Attach a job report to a PR description
+  slack-thread-mcp export --job-id=abc123 --format=markdown --output=report.md
+`,
+};
+
+const ja: typeof en = {
+  invalidValue: (name: string, value: string, expected: string[]) =>
+    `${name} の値が不正です: ${value}（${expected.join(", ")} のいずれか）`,
+  invalidDays: (name: string) => `${name} は0以上の日数で指定してください`,
+  notSet: (name: string) => `${name} が設定されていません`,
+  notSetHint: "環境変数、.env ファイル、またはグローバル設定で指定してください",
+  globalConfigPaths: (paths: string[]) => `グローバル設定のパス: ${paths.join(", ")}`,
+  notSetFor: (name: string, notifierType: string) =>
+    `${name} が設定されていません（NOTIFIER_TYPE=${notifierType} では必須）`,
+  invalidJson: (name: string) => `${name} はJSON形式で指定してください`,
+  invalidStatus: (invalid: string[], statuses: string[]) =>
+    `--status の値が不正です: ${invalid.join(", ")}（${statuses.join(", ")} または all）`,
+  invalidProgress: (error: string) => `${error}（--current / --total）`,
+  invalidDuration: (name: string) => `--${name} は 30d、12h、90m のような期間で指定してください`,
+  attachTailRequiresFile: "--attach-tail には --file の指定が必要です",
+  invalidAttachTail: "--attach-tail は正の整数で指定してください",
+  fileNotFound: (path: string) => `ファイルが見つかりません: ${path}`,
+  attachFailed: (path: string, message: string) => `${path} を添付できませんでした: ${message}`,
+  invalidLimit: "--limit は正の整数で指定してください",
+  invalidListFormat: "--format は table または json で指定してください",
+  invalidExportFormat: (formats: string[]) => `--format は ${formats.join(", ")} のいずれかで指定してください`,
+  noJobsFound: "ジョブが見つかりません",
+  jobIdRequired: "--job-id を指定してください（または SLACK_THREAD_JOB_ID を設定）",
+  jobNotFound: (jobId: string) => `ジョブが見つかりません: ${jobId}`,
+  statePathRequired: (command: string) => `${command} には THREAD_STATE_PATH の設定が必要です`,
+  postFailed: "Slack への投稿に失敗しました",
+  threadCreateFailed: "Slack のスレッドを作成できませんでした",
+  messageRequired: "update コマンドには --message の指定が必要です",
+  errorRequired: "fail コマンドには --error の指定が必要です",
+  unknownCommand: (command: string) => `不明なコマンドです: ${command}`,
+  defaultWaitingReason: "権限確認またはユーザー入力待ち",
+  notificationTypes: {
+    permission_prompt: "権限確認待ち",
+    idle_prompt: "アイドル状態",
+    auth_success: "認証成功",
+    elicitation_dialog: "追加情報の入力待ち",
+  },
+  usage: `
+使い方: slack-thread-mcp <コマンド> [オプション]
+
+コマンド:
+  start     ジョブのスレッドを作成
+  update    スレッドに進捗を投稿
+  waiting   処理が待機中であることを通知
+  complete  ジョブを完了にする
+  fail      ジョブを失敗にする
+  flush     outbox に溜まった送信を再送（THREAD_STATE_PATH が必要）
+  prune     古いスレッド状態を削除（THREAD_STATE_PATH が必要）
+  list      スレッド状態のジョブを一覧（THREAD_STATE_PATH が必要）
+  show      ジョブのスレッド状態をすべて表示（THREAD_STATE_PATH が必要）
+  export    ジョブを Markdown / HTML / JSON のレポートとして出力（THREAD_STATE_PATH が必要）
+  help      このヘルプを表示
+
+オプション:
+  --stdin             標準入力から JSON を読み込む（Claude Code の Hooks 用）
+                      session_id を job-id として自動で使用
+  --save-env          job-id と Slack の設定を CLAUDE_ENV_FILE に保存
+  --job-id=<id>       ジョブの識別子（または --stdin / SLACK_THREAD_JOB_ID）
+  --title=<title>     ジョブのタイトル（start、またはスレッドの遅延作成用）
+  --silent            Slack に投稿しない（start: 環境変数の保存のみ）
+  --message=<msg>     進捗メッセージ（update では必須）
+  --level=<level>     メッセージレベル: info, warn, debug（デフォルト: info）
+  --current=<n>       進捗の現在値、--total と同時に指定（update 用。プログレスバーと完了予想時間を表示）
+  --total=<n>         進捗の総数（update 用）
+  --unit=<unit>       進捗の単位、例: resources（update 用）
+  --reason=<reason>   待機の理由（waiting 用）
+  --summary=<text>    完了サマリ（complete 用）
+  --git-summary       開始後に変更されたファイル・行数・コミットを追加（complete 用）
+  --error=<text>      エラーの概要（fail では必須）
+  --logs-hint=<text>  ログの場所のヒント（fail 用）
+  --file=<path>       スレッドにファイルを添付（update / complete / fail 用）
+  --attach-tail=<n>   --file の末尾 N 行のみを添付（ログの抜粋など）
+  --channel=<ch>      デフォルトのチャンネルを上書き（list: チャンネルで絞り込み）
+  --mention=<bool>    メンションの有無（デフォルト: true）
+  --meta=<json>       JSON の追加情報（start 用。--silent での遅延作成にも引き継ぐ）
+                      検出したリポジトリ・ブランチ・コミット・worktree・リモートに重ねる
+  --dry-run           Slack を呼ばず、送信内容を JSONL ファイルに追記
+                      （prune: 削除対象のジョブを表示するのみ）
+  --max-wait=<sec>    Retry-After を待つ最大秒数（flush 用、デフォルト: 60）
+  --older-than=<dur>  この期間更新されていないジョブ、例: 30d, 12h（prune / list 用）
+                      （prune のデフォルト: THREAD_RETENTION_DAYS または 30d）
+  --newer-than=<dur>  この期間内に更新されたジョブ（list 用）
+  --status=<list>     カンマ区切りのステータス、または "all"（prune / list 用）
+                      （prune のデフォルト: completed,failed とスレッド未作成のジョブ）
+  --format=<fmt>      出力形式: table, json（list 用、デフォルト: table）
+                      markdown, html, json（export 用、デフォルト: markdown）
+  --output=<path>     レポートを標準出力ではなくファイルに書き出す（export 用）
+  --limit=<n>         一覧の最大件数（list 用）
+
+環境変数:
+  NOTIFIER_TYPE           通知バックエンド: slack, slack-webhook, webhook（デフォルト: slack）
+  SLACK_BOT_TOKEN         Slack Bot Token（slack では必須）
+  SLACK_DEFAULT_CHANNEL   デフォルトのチャンネル ID（slack では必須）
+  SLACK_API_URL           Slack Web API のベース URL（fake-slack サーバーなど）
+  SLACK_WEBHOOK_URL       Slack Incoming Webhook の URL（slack-webhook では必須）
+  NOTIFIER_WEBHOOK_URL    JSON Webhook の送信先（webhook では必須）
+  NOTIFIER_WEBHOOK_HEADERS  Webhook に追加する HTTP ヘッダー（JSON）
+  SLACK_MENTION_USER_IDS  メンションするユーザー ID（カンマ区切り）
+  SLACK_MENTION_GROUP_ID  メンションするユーザーグループ ID
+  SLACK_POST_PREFIX       すべての投稿の先頭に付けるプレフィックス
+  SLACK_PARENT_STATUS     親メッセージへのジョブの状態の反映: edit, reactions, both, none（デフォルト: edit。リアクションなし）
+  SLACK_STATUS_REACTIONS  状態ごとのリアクション名、例: completed=tada,failed=rotating_light
+  SLACK_MESSAGE_TEMPLATES_PATH
+                          文言のテンプレートの JSON ファイル（messageTemplates より優先）
+  SLACK_MENTION_POLICY_PATH
+                          メンションのルール・静かな時間帯・勤務時間の JSON ファイル（mentionPolicy より優先）
+  SLACK_THREAD_LOCALE     自動生成する文言の言語: en, ja（デフォルト: ja）
+  THREAD_STATE_PATH       スレッド状態の保存先（SQLite は sqlite:<path>）
+  THREAD_RETENTION_DAYS   完了・失敗したジョブを保持する日数（デフォルト: 30、0: 無期限）
+  THREAD_PLACEHOLDER_RETENTION_DAYS
+                          スレッドが作成されなかったジョブを保持する日数
+                          （デフォルト: 7、0: 無期限）
+  SLACK_THREAD_JOB_ID     デフォルトの job-id（SessionStart の --save-env で設定）
+  SLACK_THREAD_DRY_RUN    true で dry-run モード
+  SLACK_THREAD_DRY_RUN_PATH  dry-run の出力先の JSONL ファイル
+                          （デフォルト: ~/.local/share/slack-thread-mcp/dry-run.jsonl）
+
+グローバル設定:
+  ~/.config/slack-thread-mcp/config.json
+  ~/.slack-thread-mcp.json
+
+例:
+  # 基本的な使い方
+  slack-thread-mcp start --job-id=abc123 --title="Deploy to production"
+  slack-thread-mcp update --job-id=abc123 --message="Building..."
+  slack-thread-mcp complete --job-id=abc123 --summary="Deployed successfully"
+
+  # Claude Code の Hooks（SessionStart で job-id を保存し、以降は自動で使用）
+  slack-thread-mcp start --stdin --save-env --title="Task"  # SessionStart
+  slack-thread-mcp update --message="Running"                # SLACK_THREAD_JOB_ID を使用
+  slack-thread-mcp complete --summary="Done"                 # SLACK_THREAD_JOB_ID を使用
+
+  # ジョブの失敗時にビルドログの末尾を添付
+  slack-thread-mcp fail --job-id=abc123 --error="Build failed" --file=build.log --attach-tail=100
+
+  # ジョブのレポートを PR の説明に添付
+  slack-thread-mcp export --job-id=abc123 --format=markdown --output=report.md
+`,
+};
+
+/**
+ * CLI のエラーメッセージ・ヘルプの文言
+ */
+export const CLI_MESSAGES: Record<Locale, typeof en> = { en, ja };
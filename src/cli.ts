@@ -1,10 +1,51 @@
 #!/usr/bin/env node
 
-import { existsSync, readFileSync, appendFileSync } from "fs";
+import { existsSync, readFileSync, appendFileSync, writeFileSync } from "fs";
 import { homedir } from "os";
 import { join } from "path";
-import { SlackClient } from "./lib/slack-client.js";
-import { ThreadStore } from "./lib/thread-store.js";
+import { CLI_MESSAGES } from "./cli-messages.js";
+import { validateTailLines } from "./lib/attachments.js";
+import { createNotifier, isNotifierType, NOTIFIER_TYPES } from "./lib/create-notifier.js";
+import { DEFAULT_DRY_RUN_PATH, isDryRunEnabled } from "./lib/dry-run.js";
+import { DAY_MS, formatDurationShort, parseDuration } from "./lib/duration.js";
+import { getGitChangeSummary, getGitHead, toGitChangeSummaryJson } from "./lib/git-summary.js";
+import { JobEventSource } from "./lib/job-events.js";
+import { isReportFormat, REPORT_FORMATS, renderJobReport } from "./lib/job-report.js";
+import { DEFAULT_LOCALE, isLocale, LOCALES, localize, setLocale } from "./lib/locale.js";
+import {
+  formatJobDurations,
+  getJobDurations,
+  JobDurationsJson,
+  toDurationsJson,
+} from "./lib/job-timing.js";
+import { loadMentionPolicyFile, MentionPolicy, parseMentionPolicy } from "./lib/mention-policy.js";
+import {
+  loadMessageTemplatesFile,
+  MessageTemplatesConfig,
+  parseMessageTemplates,
+  renderTemplate,
+  resolveMessageTemplates,
+} from "./lib/message-templates.js";
+import { Notifier, NotifierType } from "./lib/notifier.js";
+import { deliverOperation, Outbox, outboxPathFor, replayOutbox } from "./lib/outbox.js";
+import { validateProgress } from "./lib/progress.js";
+import { withRepoContext } from "./lib/repo-context.js";
+import {
+  isParentStatusStyle,
+  PARENT_STATUS_STYLES,
+  ParentStatusStyle,
+  parseStatusReactions,
+  StatusReactions,
+} from "./lib/status-reactions.js";
+import {
+  DEFAULT_RETENTION_POLICY,
+  JOB_STATUSES,
+  JobStatus,
+  RetentionPolicy,
+  ThreadState,
+  ThreadStore,
+} from "./lib/thread-store.js";
+import { ThreadQuery } from "./lib/thread-storage.js";
 
 // デバッグモード
 const DEBUG = process.env.SLACK_THREAD_DEBUG === "true" || process.env.DEBUG === "true";
@@ -73,12 +114,27 @@ const GLOBAL_CONFIG_PATHS = [
 ];
 
 interface GlobalConfig {
+  locale?: string;
+  notifierType?: NotifierType;
   slackBotToken?: string;
+  slackApiUrl?: string;
   slackDefaultChannel?: string;
+  slackWebhookUrl?: string;
+  webhookUrl?: string;
+  webhookHeaders?: Record<string, string>;
   slackMentionUserIds?: string[];
   slackMentionGroupId?: string;
   slackPostPrefix?: string;
+  slackParentStatus?: ParentStatusStyle;
+  slackStatusReactions?: Partial<StatusReactions> | string;
+  messageTemplates?: MessageTemplatesConfig;
+  messageTemplatesPath?: string;
+  mentionPolicy?: MentionPolicy;
+  mentionPolicyPath?: string;
   threadStatePath?: string;
+  threadRetentionDays?: number;
+  placeholderRetentionDays?: number;
+  dryRunPath?: string;
 }
 
 function loadGlobalConfig(): GlobalConfig {
@@ -90,6 +146,7 @@ function loadGlobalConfig(): GlobalConfig {
         const content = readFileSync(configPath, "utf-8");
         const config = JSON.parse(content) as GlobalConfig;
         debug("config", `Loaded global config from ${configPath}`, {
+          notifierType: config.notifierType,
           hasToken: !!config.slackBotToken,
           hasChannel: !!config.slackDefaultChannel,
           hasMentionUserIds: !!config.slackMentionUserIds,
@@ -157,15 +214,52 @@ function loadDotEnv(): void {
 }
 
 interface Config {
-  slackBotToken: string;
+  notifierType: NotifierType;
+  slackBotToken?: string;
+  slackApiUrl?: string;
   slackDefaultChannel: string;
+  slackWebhookUrl?: string;
+  webhookUrl?: string;
+  webhookHeaders?: Record<string, string>;
   slackMentionUserIds?: string[];
   slackMentionGroupId?: string;
   slackPostPrefix?: string;
+  slackParentStatus: ParentStatusStyle;
+  slackStatusReactions?: Partial<StatusReactions>;
+  messageTemplates?: MessageTemplatesConfig;
+  mentionPolicy?: MentionPolicy;
   threadStatePath?: string;
+  retention: RetentionPolicy;
+  dryRunPath?: string;
 }
 
-function resolveConfig(): Config {
+function parseRetentionDays(name: string, value: string | number | undefined): number | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const days = Number(value);
+  if (!Number.isFinite(days) || days < 0) {
+    console.error(`Error: ${localize(CLI_MESSAGES).invalidDays(name)}`);
+    process.exit(1);
+  }
+  return days;
+}
+
+/**
+ * 自動生成する文言の言語を設定（エラーメッセージ・ヘルプにも反映するため、他の設定より先に行う）
+ */
+function applyLocale(): void {
+  loadDotEnv();
+  const locale = process.env.SLACK_THREAD_LOCALE || loadGlobalConfig().locale || DEFAULT_LOCALE;
+  if (!isLocale(locale)) {
+    console.error(`Error: ${localize(CLI_MESSAGES).invalidValue("SLACK_THREAD_LOCALE", locale, LOCALES)}`);
+    process.exit(1);
+  }
+  setLocale(locale);
+}
+
+// requireNotifier=false のコマンド（prune / list / show）は通知を送らないため、認証情報の検証を省略する
+function resolveConfig(dryRunFlag: boolean, requireNotifier: boolean = true): Config {
   debug("resolve", "Starting config resolution");
 
   // .env ファイルを読み込み
@@ -175,6 +269,14 @@ function resolveConfig(): Config {
   const globalConfig = loadGlobalConfig();
 
   // 優先順位: 環境変数 > グローバル設定
+  const notifierTypeRaw =
+    process.env.NOTIFIER_TYPE || globalConfig.notifierType || "slack";
+  if (!isNotifierType(notifierTypeRaw)) {
+    console.error(`Error: ${localize(CLI_MESSAGES).invalidValue("NOTIFIER_TYPE", notifierTypeRaw, NOTIFIER_TYPES)}`);
+    process.exit(1);
+  }
+  const notifierType = notifierTypeRaw;
+
   const slackBotToken =
     process.env.SLACK_BOT_TOKEN || globalConfig.slackBotToken;
   const slackDefaultChannel =
@@ -192,20 +294,62 @@ function resolveConfig(): Config {
     resolved: slackDefaultChannel,
   });
 
-  if (!slackBotToken) {
-    console.error("Error: SLACK_BOT_TOKEN is not set");
-    console.error("Set it via environment variable, .env file, or global config");
-    console.error(`Global config paths: ${GLOBAL_CONFIG_PATHS.join(", ")}`);
-    debug("resolve", "SLACK_BOT_TOKEN not found - exiting");
+  const slackWebhookUrl =
+    process.env.SLACK_WEBHOOK_URL || globalConfig.slackWebhookUrl;
+  const webhookUrl =
+    process.env.NOTIFIER_WEBHOOK_URL || globalConfig.webhookUrl;
+  const dryRun = dryRunFlag || isDryRunEnabled(process.env.SLACK_THREAD_DRY_RUN);
+  const dryRunPath = dryRun
+    ? process.env.SLACK_THREAD_DRY_RUN_PATH || globalConfig.dryRunPath || DEFAULT_DRY_RUN_PATH
+    : undefined;
+
+  debug("resolve", "Notifier resolution", {
+    notifierType,
+    hasSlackWebhookUrl: !!slackWebhookUrl,
+    hasWebhookUrl: !!webhookUrl,
+    dryRunPath,
+  });
+
+  // dry-run 時は API を呼ばないため認証情報は不要
+  const skipNotifierValidation = dryRun || !requireNotifier;
+  if (notifierType === "slack" && !skipNotifierValidation) {
+    if (!slackBotToken) {
+      console.error(`Error: ${localize(CLI_MESSAGES).notSet("SLACK_BOT_TOKEN")}`);
+      console.error(localize(CLI_MESSAGES).notSetHint);
+      console.error(localize(CLI_MESSAGES).globalConfigPaths(GLOBAL_CONFIG_PATHS));
+      debug("resolve", "SLACK_BOT_TOKEN not found - exiting");
+      process.exit(1);
+    }
+
+    if (!slackDefaultChannel) {
+      console.error(`Error: ${localize(CLI_MESSAGES).notSet("SLACK_DEFAULT_CHANNEL")}`);
+      debug("resolve", "SLACK_DEFAULT_CHANNEL not found - exiting");
+      process.exit(1);
+    }
+  }
+
+  if (notifierType === "slack-webhook" && !slackWebhookUrl && !skipNotifierValidation) {
+    console.error(`Error: ${localize(CLI_MESSAGES).notSetFor("SLACK_WEBHOOK_URL", notifierType)}`);
+    debug("resolve", "SLACK_WEBHOOK_URL not found - exiting");
     process.exit(1);
   }
 
-  if (!slackDefaultChannel) {
-    console.error("Error: SLACK_DEFAULT_CHANNEL is not set");
-    debug("resolve", "SLACK_DEFAULT_CHANNEL not found - exiting");
+  if (notifierType === "webhook" && !webhookUrl && !skipNotifierValidation) {
+    console.error(`Error: ${localize(CLI_MESSAGES).notSetFor("NOTIFIER_WEBHOOK_URL", notifierType)}`);
+    debug("resolve", "NOTIFIER_WEBHOOK_URL not found - exiting");
     process.exit(1);
   }
 
+  let webhookHeaders = globalConfig.webhookHeaders;
+  if (process.env.NOTIFIER_WEBHOOK_HEADERS) {
+    try {
+      webhookHeaders = JSON.parse(process.env.NOTIFIER_WEBHOOK_HEADERS);
+    } catch {
+      console.error(`Error: ${localize(CLI_MESSAGES).invalidJson("NOTIFIER_WEBHOOK_HEADERS")}`);
+      process.exit(1);
+    }
+  }
+
   const mentionUserIdsRaw =
     process.env.SLACK_MENTION_USER_IDS ||
     globalConfig.slackMentionUserIds?.join(",");
@@ -213,25 +357,111 @@ function resolveConfig(): Config {
     ? mentionUserIdsRaw.split(",").map((id) => id.trim())
     : undefined;
 
+  const retention: RetentionPolicy = {
+    terminalDays: parseRetentionDays(
+      "THREAD_RETENTION_DAYS",
+      process.env.THREAD_RETENTION_DAYS ?? globalConfig.threadRetentionDays
+    ),
+    placeholderDays: parseRetentionDays(
+      "THREAD_PLACEHOLDER_RETENTION_DAYS",
+      process.env.THREAD_PLACEHOLDER_RETENTION_DAYS ?? globalConfig.placeholderRetentionDays
+    ),
+  };
+
+  const slackParentStatusRaw =
+    process.env.SLACK_PARENT_STATUS || globalConfig.slackParentStatus || "edit";
+  if (!isParentStatusStyle(slackParentStatusRaw)) {
+    console.error(`Error: ${localize(CLI_MESSAGES).invalidValue("SLACK_PARENT_STATUS", slackParentStatusRaw, PARENT_STATUS_STYLES)}`);
+    process.exit(1);
+  }
+
+  let slackStatusReactions: Partial<StatusReactions> | undefined;
+  const statusReactionsRaw = process.env.SLACK_STATUS_REACTIONS ?? globalConfig.slackStatusReactions;
+  if (typeof statusReactionsRaw === "string") {
+    try {
+      slackStatusReactions = parseStatusReactions(statusReactionsRaw);
+    } catch (error) {
+      console.error(`Error: SLACK_STATUS_REACTIONS: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  } else {
+    slackStatusReactions = statusReactionsRaw;
+  }
+
+  // グローバル設定の messageTemplates にテンプレートファイルの指定を重ねる
+  let messageTemplates: MessageTemplatesConfig | undefined;
+  try {
+    if (globalConfig.messageTemplates) {
+      messageTemplates = parseMessageTemplates(globalConfig.messageTemplates);
+    }
+    const messageTemplatesPath =
+      process.env.SLACK_MESSAGE_TEMPLATES_PATH || globalConfig.messageTemplatesPath;
+    if (messageTemplatesPath) {
+      const fromFile = loadMessageTemplatesFile(messageTemplatesPath);
+      messageTemplates = {
+        ...messageTemplates,
+        ...fromFile,
+        levelEmoji: { ...messageTemplates?.levelEmoji, ...fromFile.levelEmoji },
+      };
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  // グローバル設定の mentionPolicy にポリシーファイルの指定を重ねる（キー単位でファイルが優先）
+  let mentionPolicy: MentionPolicy | undefined;
+  try {
+    if (globalConfig.mentionPolicy) {
+      mentionPolicy = parseMentionPolicy(globalConfig.mentionPolicy);
+    }
+    const mentionPolicyPath = process.env.SLACK_MENTION_POLICY_PATH || globalConfig.mentionPolicyPath;
+    if (mentionPolicyPath) {
+      mentionPolicy = { ...mentionPolicy, ...loadMentionPolicyFile(mentionPolicyPath) };
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
   const resolvedConfig = {
+    notifierType,
     slackBotToken,
-    slackDefaultChannel,
+    slackApiUrl: process.env.SLACK_API_URL || globalConfig.slackApiUrl,
+    slackDefaultChannel: slackDefaultChannel || "",
+    slackWebhookUrl,
+    webhookUrl,
+    webhookHeaders,
     slackMentionUserIds,
     slackMentionGroupId:
       process.env.SLACK_MENTION_GROUP_ID || globalConfig.slackMentionGroupId,
     slackPostPrefix:
       process.env.SLACK_POST_PREFIX || globalConfig.slackPostPrefix,
+    slackParentStatus: slackParentStatusRaw,
+    slackStatusReactions,
+    messageTemplates,
+    mentionPolicy,
     threadStatePath:
       process.env.THREAD_STATE_PATH || globalConfig.threadStatePath,
+    retention,
+    dryRunPath,
   };
 
   debug("resolve", "Final resolved config", {
+    notifierType: resolvedConfig.notifierType,
     hasToken: !!resolvedConfig.slackBotToken,
+    slackApiUrl: resolvedConfig.slackApiUrl,
     channel: resolvedConfig.slackDefaultChannel,
     mentionUserIds: resolvedConfig.slackMentionUserIds,
     mentionGroupId: resolvedConfig.slackMentionGroupId,
     postPrefix: resolvedConfig.slackPostPrefix,
+    parentStatus: resolvedConfig.slackParentStatus,
+    statusReactions: resolvedConfig.slackStatusReactions,
+    messageTemplates: resolvedConfig.messageTemplates,
+    mentionPolicy: resolvedConfig.mentionPolicy,
     threadStatePath: resolvedConfig.threadStatePath,
+    retention: resolvedConfig.retention,
+    dryRunPath: resolvedConfig.dryRunPath,
   });
 
   return resolvedConfig;
@@ -397,12 +627,26 @@ async function parseArgs(args: string[]): Promise<{ command: string; options: Re
 
         // Slack関連の環境変数を保存（既に設定されていれば）
         const slackEnvVars = [
+          "NOTIFIER_TYPE",
           "SLACK_BOT_TOKEN",
+          "SLACK_API_URL",
           "SLACK_DEFAULT_CHANNEL",
+          "SLACK_WEBHOOK_URL",
+          "NOTIFIER_WEBHOOK_URL",
+          "NOTIFIER_WEBHOOK_HEADERS",
           "SLACK_MENTION_USER_IDS",
           "SLACK_MENTION_GROUP_ID",
           "SLACK_POST_PREFIX",
+          "SLACK_PARENT_STATUS",
+          "SLACK_STATUS_REACTIONS",
+          "SLACK_MESSAGE_TEMPLATES_PATH",
+          "SLACK_MENTION_POLICY_PATH",
+          "SLACK_THREAD_LOCALE",
           "THREAD_STATE_PATH",
+          "THREAD_RETENTION_DAYS",
+          "THREAD_PLACEHOLDER_RETENTION_DAYS",
+          "SLACK_THREAD_DRY_RUN",
+          "SLACK_THREAD_DRY_RUN_PATH",
         ];
 
         for (const varName of slackEnvVars) {
@@ -430,58 +674,7 @@ async function parseArgs(args: string[]): Promise<{ command: string; options: Re
 }
 
 function printUsage(): void {
-  console.log(`
-Usage: slack-thread-mcp <command> [options]
-
-Commands:
-  start     Create a new thread for a job
-  update    Post a progress update to the thread
-  waiting   Notify that the process is waiting
-  complete  Mark the job as completed
-  fail      Mark the job as failed
-  help      Show this help message
-
-Options:
-  --stdin             Read JSON from stdin (for Claude Code hooks)
-                      Automatically extracts session_id as job-id
-  --save-env          Save job-id and Slack config to CLAUDE_ENV_FILE
-  --job-id=<id>       Job identifier (or use --stdin / SLACK_THREAD_JOB_ID)
-  --title=<title>     Job title (for start or lazy thread creation)
-  --silent            Don't post to Slack (for start: only save env vars)
-  --message=<msg>     Progress message (required for update)
-  --level=<level>     Message level: info, warn, debug (default: info)
-  --reason=<reason>   Waiting reason (for waiting command)
-  --summary=<text>    Completion summary (for complete command)
-  --error=<text>      Error summary (required for fail)
-  --logs-hint=<text>  Logs location hint (for fail command)
-  --channel=<ch>      Override default channel
-  --mention=<bool>    Enable/disable mention (default: true)
-  --meta=<json>       Additional metadata as JSON (for start)
-
-Environment Variables:
-  SLACK_BOT_TOKEN         Slack Bot Token (required)
-  SLACK_DEFAULT_CHANNEL   Default channel ID (required)
-  SLACK_MENTION_USER_IDS  Comma-separated user IDs to mention
-  SLACK_MENTION_GROUP_ID  Group ID to mention
-  SLACK_POST_PREFIX       Prefix for all messages
-  THREAD_STATE_PATH       Path to persist thread state
-  SLACK_THREAD_JOB_ID     Default job-id (set by --save-env in SessionStart)
-
-Global Config:
-  ~/.config/slack-thread-mcp/config.json
-  ~/.slack-thread-mcp.json
-
-Examples:
-  # Standard usage
-  slack-thread-mcp start --job-id=abc123 --title="Deploy to production"
-  slack-thread-mcp update --job-id=abc123 --message="Building..."
-  slack-thread-mcp complete --job-id=abc123 --summary="Deployed successfully"
-
-  # Claude Code hooks (SessionStart saves job-id, others auto-use it)
-  slack-thread-mcp start --stdin --save-env --title="Task"  # SessionStart
-  slack-thread-mcp update --message="Running"                # Uses SLACK_THREAD_JOB_ID
-  slack-thread-mcp complete --summary="Done"                 # Uses SLACK_THREAD_JOB_ID
-`);
+  console.log(localize(CLI_MESSAGES).usage);
 }
 
 // 遅延初期化: スレッドがなければ作成する
@@ -490,16 +683,19 @@ interface LazyInitResult {
   channel: string;
   title: string;
   created: boolean;
+  queued?: boolean;
 }
 
 async function ensureThread(
   jobId: string,
   threadStore: ThreadStore,
-  slackClient: SlackClient,
+  notifier: Notifier,
   channel: string,
   titleOverride?: string,
   cwdHint?: string,
-  mention: boolean = true
+  mention: boolean = true,
+  outbox?: Outbox,
+  source?: JobEventSource
 ): Promise<LazyInitResult> {
   const state = threadStore.get(jobId);
 
@@ -524,38 +720,357 @@ async function ensureThread(
   }
   title = title || "Claude Code Task";
 
-  debug("lazy-init", "Creating thread lazily", { jobId, title, channel });
+  // start を経由していない場合はリポジトリ情報を meta とする
+  const meta = state?.meta ?? withRepoContext(undefined, cwdHint || process.cwd());
+
+  // 親メッセージが既に outbox で送信待ちなら重複して積まない（障害中に hook ごとに増えないように）
+  if (outbox?.hasPending(jobId, "postParentMessage")) {
+    debug("lazy-init", "Parent message already queued in outbox", { jobId });
+    return {
+      threadTs: "",
+      channel: state?.channel ?? channel,
+      title,
+      created: false,
+      queued: true,
+    };
+  }
+
+  debug("lazy-init", "Creating thread lazily", { jobId, title, channel, meta });
 
-  const result = await slackClient.postParentMessage(
-    channel,
-    title,
-    undefined,
-    mention
+  const result = await deliverOperation(
+    notifier,
+    threadStore,
+    jobId,
+    { type: "postParentMessage", channel, title, meta, mention, source },
+    outbox
   );
 
-  if (!result.ok) {
-    throw new Error("Failed to create Slack thread");
+  if (result.queued) {
+    // 親メッセージは outbox に積まれた（後続の操作も同じジョブとして積まれる）
+    debug("lazy-init", "Parent message queued in outbox", { jobId });
+    return {
+      threadTs: "",
+      channel: threadStore.get(jobId)?.channel ?? channel,
+      title,
+      created: false,
+      queued: true,
+    };
   }
 
-  // スレッド状態を作成または更新
-  if (state) {
-    // 既存のプレースホルダー状態を更新
-    threadStore.updateThreadTs(jobId, result.ts, result.permalink);
-    debug("lazy-init", "Updated placeholder thread state", { jobId, threadTs: result.ts });
-  } else {
-    // 新規作成
-    threadStore.create(jobId, result.channel, result.ts, title, result.permalink);
-    debug("lazy-init", "Created new thread state", { jobId, threadTs: result.ts });
+  if (!result.ok) {
+    throw new Error(localize(CLI_MESSAGES).threadCreateFailed);
   }
 
-  return {
+  debug("lazy-init", state ? "Updated placeholder thread state" : "Created new thread state", {
+    jobId,
     threadTs: result.ts,
-    channel: result.channel,
-    title,
-    created: true,
+  });
+
+  // 並行するプロセスが先にスレッドを作成していた場合は、そのスレッドを使う
+  return {
+    threadTs: result.ts as string,
+    channel: result.channel as string,
+    title: threadStore.get(jobId)?.title ?? title,
+    created: !result.skipped,
   };
 }
 
+// スレッド状態の参照・整理のみを行うコマンド（Slack の設定は不要）
+const STATE_COMMANDS = ["prune", "list", "show", "export"];
+
+// --mention を指定しない場合のデフォルト（上から順に最初に一致したものを使い、どれにも一致しなければ false）
+// メンションポリシーのルールに一致した場合はルールが優先される
+const DEFAULT_MENTION: { command: string; hookEvent?: string; mention: boolean }[] = [
+  { command: "update", hookEvent: "PostToolUse", mention: false }, // ツール実行ごとの進捗
+  { command: "start", mention: true },
+  { command: "update", mention: true },
+];
+
+function defaultMention(command: string, hookEvent: string | undefined): boolean {
+  const entry = DEFAULT_MENTION.find(
+    (e) => e.command === command && (e.hookEvent === undefined || e.hookEvent === hookEvent)
+  );
+  return entry?.mention ?? false;
+}
+
+// --status=<list> をパース（"all" または未指定は undefined）
+function parseStatusOption(value: string | undefined): JobStatus[] | undefined {
+  if (!value || value === "all") {
+    return undefined;
+  }
+
+  const statuses = value.split(",").map((s) => s.trim()) as JobStatus[];
+  const invalid = statuses.filter((s) => !JOB_STATUSES.includes(s));
+  if (invalid.length > 0) {
+    console.error(`Error: ${localize(CLI_MESSAGES).invalidStatus(invalid, JOB_STATUSES)}`);
+    process.exit(1);
+  }
+  return statuses;
+}
+
+function parseProgressOptions(
+  options: Record<string, string>
+): { current: number; total: number; unit?: string } | undefined {
+  const current = options.current !== undefined ? Number(options.current) : undefined;
+  const total = options.total !== undefined ? Number(options.total) : undefined;
+  const error = validateProgress(current, total);
+  if (error) {
+    console.error(`Error: ${localize(CLI_MESSAGES).invalidProgress(error)}`);
+    process.exit(1);
+  }
+  if (current === undefined || total === undefined) {
+    return undefined;
+  }
+  return { current, total, unit: options.unit };
+}
+
+function parseDurationOption(name: string, value: string): number {
+  const ms = parseDuration(value);
+  if (ms === undefined) {
+    console.error(`Error: ${localize(CLI_MESSAGES).invalidDuration(name)}`);
+    process.exit(1);
+  }
+  return ms;
+}
+
+// 開始時のリポジトリの HEAD を記録（complete --git-summary で開始後の変更を集計するため）
+function recordStartCommit(threadStore: ThreadStore, jobId: string, cwd: string): void {
+  const head = getGitHead(cwd);
+  debug("git", "Start commit", { jobId, cwd, head });
+  if (head) {
+    threadStore.recordStartCommit(jobId, head);
+  }
+}
+
+interface AttachOption {
+  path: string;
+  tailLines?: number;
+}
+
+// --file / --attach-tail をパース（投稿前にファイルの存在を確認する）
+function parseAttachOptions(options: Record<string, string>): AttachOption | undefined {
+  const path = options.file;
+  const tailLines = options["attach-tail"] !== undefined ? Number(options["attach-tail"]) : undefined;
+  if (tailLines !== undefined && !path) {
+    console.error(`Error: ${localize(CLI_MESSAGES).attachTailRequiresFile}`);
+    process.exit(1);
+  }
+  if (validateTailLines(tailLines)) {
+    console.error(`Error: ${localize(CLI_MESSAGES).invalidAttachTail}`);
+    process.exit(1);
+  }
+  if (!path) {
+    return undefined;
+  }
+  if (!existsSync(path)) {
+    console.error(`Error: ${localize(CLI_MESSAGES).fileNotFound(path)}`);
+    process.exit(1);
+  }
+  return { path, tailLines };
+}
+
+/**
+ * メッセージの投稿後にファイルをスレッドへ添付
+ * 添付の失敗でコマンド全体を失敗させないよう、エラーは警告として出力結果に含める
+ */
+async function attachFile(
+  notifier: Notifier,
+  threadStore: ThreadStore,
+  jobId: string,
+  thread: LazyInitResult,
+  attach: AttachOption,
+  outbox?: Outbox,
+  source?: JobEventSource
+): Promise<Record<string, unknown>> {
+  try {
+    const result = await deliverOperation(
+      notifier,
+      threadStore,
+      jobId,
+      {
+        type: "uploadFile",
+        channel: thread.channel,
+        threadTs: thread.threadTs || undefined,
+        path: attach.path,
+        tailLines: attach.tailLines,
+        source,
+      },
+      outbox
+    );
+    debug("attach", "Upload result", result);
+    return result.queued
+      ? { ok: false, queued: true }
+      : { ok: result.ok, file_id: result.fileId, permalink: result.permalink };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Warning: ${localize(CLI_MESSAGES).attachFailed(attach.path, message)}`);
+    return { ok: false, error: message };
+  }
+}
+
+function pruneCommand(
+  threadStore: ThreadStore,
+  options: Record<string, string>,
+  retention: RetentionPolicy
+): void {
+  const olderThanMs = options["older-than"]
+    ? parseDurationOption("older-than", options["older-than"])
+    : (retention.terminalDays ?? DEFAULT_RETENTION_POLICY.terminalDays) * DAY_MS;
+  const statuses = parseStatusOption(options.status);
+  const dryRun = options["dry-run"] === "true";
+  const updatedBefore = new Date(Date.now() - olderThanMs).toISOString();
+
+  // --status 未指定時は終了済みジョブとスレッド未作成のジョブが対象
+  const queries: ThreadQuery[] = options.status
+    ? [{ status: statuses, updatedBefore }]
+    : [
+        { status: ["completed", "failed"], updatedBefore },
+        { placeholder: true, updatedBefore },
+      ];
+
+  const pruned = new Map<string, ThreadState>();
+  for (const query of queries) {
+    for (const state of threadStore.prune(query, dryRun)) {
+      pruned.set(state.jobId, state);
+    }
+  }
+
+  debug("prune", "Pruned thread state", { dryRun, updatedBefore, count: pruned.size });
+  console.log(JSON.stringify({
+    ok: true,
+    dry_run: dryRun,
+    updated_before: updatedBefore,
+    pruned: pruned.size,
+    jobs: Array.from(pruned.values()).map((state) => ({
+      job_id: state.jobId,
+      status: state.status,
+      title: state.title,
+      thread_ts: state.threadTs,
+      updated_at: state.updatedAt,
+    })),
+  }));
+}
+
+function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => row[i].length))
+  );
+  const formatRow = (row: string[]) =>
+    row.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i]))).join("  ");
+  return [formatRow(headers), ...rows.map(formatRow)].join("\n");
+}
+
+function listCommand(threadStore: ThreadStore, options: Record<string, string>): void {
+  const now = Date.now();
+  const query: ThreadQuery = {
+    status: parseStatusOption(options.status),
+    channel: options.channel,
+  };
+  if (options["older-than"]) {
+    query.updatedBefore = new Date(now - parseDurationOption("older-than", options["older-than"])).toISOString();
+  }
+  if (options["newer-than"]) {
+    query.updatedAfter = new Date(now - parseDurationOption("newer-than", options["newer-than"])).toISOString();
+  }
+
+  // 最近更新されたジョブから表示
+  let threads = threadStore
+    .list(query)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  if (options.limit) {
+    const limit = Number(options.limit);
+    if (!Number.isInteger(limit) || limit <= 0) {
+      console.error(`Error: ${localize(CLI_MESSAGES).invalidLimit}`);
+      process.exit(1);
+    }
+    threads = threads.slice(0, limit);
+  }
+
+  debug("list", "Listed thread state", { query, count: threads.length });
+
+  const format = options.format || "table";
+  if (format === "json") {
+    console.log(JSON.stringify(threads.map((state) => withDurations(state, now)), null, 2));
+    return;
+  }
+  if (format !== "table") {
+    console.error(`Error: ${localize(CLI_MESSAGES).invalidListFormat}`);
+    process.exit(1);
+  }
+
+  if (threads.length === 0) {
+    console.log(localize(CLI_MESSAGES).noJobsFound);
+    return;
+  }
+
+  console.log(formatTable(
+    ["JOB_ID", "STATUS", "UPDATED", "ELAPSED", "CHANNEL", "THREAD_TS", "TITLE"],
+    threads.map((state) => [
+      state.jobId,
+      state.status,
+      `${formatDurationShort(now - new Date(state.updatedAt).getTime())} ago`,
+      formatJobDurations(getJobDurations(state, now), "en"),
+      state.channel,
+      state.threadTs || "-",
+      state.title,
+    ])
+  ));
+}
+
+function showCommand(threadStore: ThreadStore, options: Record<string, string>): void {
+  const jobId = options["job-id"] || process.env.SLACK_THREAD_JOB_ID;
+  if (!jobId) {
+    console.error(`Error: ${localize(CLI_MESSAGES).jobIdRequired}`);
+    process.exit(1);
+  }
+
+  const state = threadStore.get(jobId);
+  if (!state) {
+    console.error(`Error: ${localize(CLI_MESSAGES).jobNotFound(jobId)}`);
+    process.exit(1);
+  }
+
+  console.log(JSON.stringify(withDurations(state), null, 2));
+}
+
+/**
+ * ジョブのレポートをスレッド状態から生成（Slack は参照しない）
+ */
+function exportCommand(threadStore: ThreadStore, options: Record<string, string>): void {
+  const jobId = options["job-id"] || process.env.SLACK_THREAD_JOB_ID;
+  if (!jobId) {
+    console.error(`Error: ${localize(CLI_MESSAGES).jobIdRequired}`);
+    process.exit(1);
+  }
+
+  const format = options.format || "markdown";
+  if (!isReportFormat(format)) {
+    console.error(`Error: ${localize(CLI_MESSAGES).invalidExportFormat(REPORT_FORMATS)}`);
+    process.exit(1);
+  }
+
+  const state = threadStore.get(jobId);
+  if (!state) {
+    console.error(`Error: ${localize(CLI_MESSAGES).jobNotFound(jobId)}`);
+    process.exit(1);
+  }
+
+  const report = renderJobReport(state, format);
+  if (options.output) {
+    writeFileSync(options.output, report);
+    debug("export", "Wrote report", { jobId, format, output: options.output });
+    return;
+  }
+  process.stdout.write(report);
+}
+
+/**
+ * JSON 出力用に、スレッド状態へジョブの所要時間を添える
+ */
+function withDurations(state: ThreadState, now?: number): ThreadState & { durations: JobDurationsJson } {
+  return { ...state, durations: toDurationsJson(getJobDurations(state, now)) };
+}
+
 async function main(): Promise<void> {
   debug("main", "CLI started", {
     nodeVersion: process.version,
@@ -564,6 +1079,8 @@ async function main(): Promise<void> {
     ppid: process.ppid,
   });
 
+  applyLocale();
+
   const args = process.argv.slice(2);
   const { command, options, stdinData } = await parseArgs(args);
 
@@ -574,47 +1091,123 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
-  const config = resolveConfig();
+  // スレッド状態の参照・整理のみを行うコマンドは通知を送らない
+  // （prune の --dry-run は「削除せずに対象を表示」の意味で、通知の dry-run とは無関係）
+  const isStateCommand = STATE_COMMANDS.includes(command);
+  const config = resolveConfig(!isStateCommand && options["dry-run"] === "true", !isStateCommand);
 
-  debug("main", "Creating SlackClient");
-  const slackClient = new SlackClient({
-    botToken: config.slackBotToken,
-    defaultChannel: config.slackDefaultChannel,
-    mentionUserIds: config.slackMentionUserIds,
-    mentionGroupId: config.slackMentionGroupId,
-    postPrefix: config.slackPostPrefix,
-  });
+  try {
+    if (isStateCommand) {
+      if (!config.threadStatePath) {
+        console.error(`Error: ${localize(CLI_MESSAGES).statePathRequired(command)}`);
+        process.exit(1);
+      }
 
-  debug("main", "Creating ThreadStore", { statePath: config.threadStatePath });
-  const threadStore = new ThreadStore(config.threadStatePath);
+      // 保持期間の自動適用は行わない（prune --dry-run で削除しないため）
+      const threadStore = new ThreadStore(config.threadStatePath);
+      try {
+        if (command === "prune") {
+          pruneCommand(threadStore, options, config.retention);
+        } else if (command === "list") {
+          listCommand(threadStore, options);
+        } else if (command === "export") {
+          exportCommand(threadStore, options);
+        } else {
+          showCommand(threadStore, options);
+        }
+      } finally {
+        threadStore.close();
+      }
+      return;
+    }
 
-  // job-idの解決: オプション > 環境変数SLACK_THREAD_JOB_ID
-  const jobIdResolved = options["job-id"] || process.env.SLACK_THREAD_JOB_ID;
-  if (!jobIdResolved && command !== "help") {
-    console.error("Error: --job-id is required (or set SLACK_THREAD_JOB_ID)");
-    debug("main", "Missing job-id - exiting");
-    process.exit(1);
-  }
-  const jobId = jobIdResolved as string;  // 上記でexitしているため安全
-  debug("main", "Resolved job-id", {
-    fromOption: options["job-id"],
-    fromEnv: process.env.SLACK_THREAD_JOB_ID,
-    resolved: jobId,
-  });
+    debug("main", "Creating notifier", { type: config.notifierType });
+    const notifier = createNotifier({
+      type: config.notifierType,
+      botToken: config.slackBotToken,
+      slackApiUrl: config.slackApiUrl,
+      slackWebhookUrl: config.slackWebhookUrl,
+      webhookUrl: config.webhookUrl,
+      webhookHeaders: config.webhookHeaders,
+      defaultChannel: config.slackDefaultChannel,
+      mentionUserIds: config.slackMentionUserIds,
+      mentionGroupId: config.slackMentionGroupId,
+      postPrefix: config.slackPostPrefix,
+      parentStatusStyle: config.slackParentStatus,
+      statusReactions: config.slackStatusReactions,
+      templates: config.messageTemplates,
+      mentionPolicy: config.mentionPolicy,
+      dryRunPath: config.dryRunPath,
+      // outbox で再送するため、WebClient 内での長時間の再試行は行わない
+      failFast: !!config.threadStatePath,
+    });
 
-  const channel = options.channel || config.slackDefaultChannel;
-  // メンションのデフォルト:
-  // - start: true
-  // - update: true（ただしPostToolUseイベントはfalse）
-  // - それ以外: false
-  const hookEvent = options["_hook_event"];
-  const isPostToolUse = hookEvent === "PostToolUse";
-  const mentionDefault = command === "start" || (command === "update" && !isPostToolUse);
-  const mention = options.mention === "true" ? true : options.mention === "false" ? false : mentionDefault;
+    debug("main", "Creating ThreadStore", { statePath: config.threadStatePath, retention: config.retention });
+    // 読み込み時に保持期間を過ぎたジョブを削除
+    const threadStore = new ThreadStore(config.threadStatePath, undefined, config.retention);
 
-  debug("main", "Execution context", { jobId, channel, mention, command });
+    // outbox: 一時的な障害で送信できなかった操作を THREAD_STATE_PATH の隣に保存し、後で再送する
+    const outbox = config.threadStatePath
+      ? new Outbox(outboxPathFor(config.threadStatePath))
+      : undefined;
+    const outboxLog = (message: string, data?: unknown) => debug("outbox", message, data);
+
+    if (command === "flush") {
+      if (!outbox) {
+        console.error(`Error: ${localize(CLI_MESSAGES).statePathRequired("flush")}`);
+        process.exit(1);
+      }
+      const maxWaitSec = Number(options["max-wait"] ?? 60);
+      const summary = await replayOutbox(outbox, notifier, threadStore, {
+        wait: true,
+        maxWaitMs: maxWaitSec * 1000,
+        log: outboxLog,
+      });
+      console.log(JSON.stringify({ ok: summary.remaining === 0, ...summary }));
+      return;
+    }
+
+    // 前回までに送信できなかった操作を先に再送（Retry-After 前のものは次回に持ち越す）
+    // 再送の失敗で今回のコマンド本体を止めない
+    if (outbox) {
+      try {
+        const summary = await replayOutbox(outbox, notifier, threadStore, { log: outboxLog });
+        debug("outbox", "Replayed pending entries", summary);
+      } catch (error) {
+        debug("outbox", "Replay failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    // job-idの解決: オプション > 環境変数SLACK_THREAD_JOB_ID
+    const jobIdResolved = options["job-id"] || process.env.SLACK_THREAD_JOB_ID;
+    if (!jobIdResolved && command !== "help") {
+      console.error(`Error: ${localize(CLI_MESSAGES).jobIdRequired}`);
+      debug("main", "Missing job-id - exiting");
+      process.exit(1);
+    }
+    const jobId = jobIdResolved as string;  // 上記でexitしているため安全
+    debug("main", "Resolved job-id", {
+      fromOption: options["job-id"],
+      fromEnv: process.env.SLACK_THREAD_JOB_ID,
+      resolved: jobId,
+    });
+
+    const channel = options.channel || notifier.getDefaultChannel();
+    const hookEvent = options["_hook_event"];
+    const isPostToolUse = hookEvent === "PostToolUse";
+    const mention =
+      options.mention === "true"
+        ? true
+        : options.mention === "false"
+          ? false
+          : defaultMention(command, hookEvent);
+    // イベント履歴に記録する発生元（Hooks から呼ばれた場合）
+    const source: JobEventSource = { hookEvent, toolName: options["_tool_name"] };
+
+    debug("main", "Execution context", { jobId, channel, mention, command });
 
-  try {
     switch (command) {
       case "start": {
         const silent = options.silent === "true" || args.includes("--silent");
@@ -638,18 +1231,36 @@ async function main(): Promise<void> {
           break;
         }
 
+        let meta: Record<string, unknown> | undefined;
+        if (options.meta) {
+          try {
+            meta = JSON.parse(options.meta);
+            debug("cmd:start", "Parsed meta", meta);
+          } catch {
+            console.error(`Error: ${localize(CLI_MESSAGES).invalidJson("--meta")}`);
+            process.exit(1);
+          }
+        }
+        // リポジトリ情報を補う（--meta で指定したキーが優先）
+        meta = withRepoContext(meta, options["_cwd"] || process.cwd());
+        debug("cmd:start", "Meta with repository context", meta);
+
         // silentモード: Slack投稿せずにjob-idの保存のみ（遅延初期化用）
         if (silent) {
           debug("cmd:start", "Silent mode - skipping Slack post, only saving job-id");
           // 最低限のスレッド状態を作成（thread_tsは後で遅延初期化時に設定）
-          const state = threadStore.create(
+          // 並行するフックが先にスレッドを作成していた場合は上書きしない
+          // meta は遅延初期化時の親メッセージで使用する
+          const { state } = threadStore.createIfAbsent(
             jobId,
             channel,
             "",  // thread_tsは空（未作成）
             title,
-            undefined
+            undefined,
+            meta
           );
           debug("cmd:start", "Created placeholder thread state", state);
+          recordStartCommit(threadStore, jobId, options["_cwd"] || process.cwd());
           console.log(JSON.stringify({
             job_id: state.jobId,
             channel: state.channel,
@@ -659,48 +1270,44 @@ async function main(): Promise<void> {
           break;
         }
 
-        let meta: Record<string, unknown> | undefined;
-        if (options.meta) {
-          try {
-            meta = JSON.parse(options.meta);
-            debug("cmd:start", "Parsed meta", meta);
-          } catch {
-            console.error("Error: --meta must be valid JSON");
-            process.exit(1);
-          }
-        }
-
         debug("cmd:start", "Posting parent message to Slack", { channel, title, hasMeta: !!meta, mention });
-        const result = await slackClient.postParentMessage(
-          channel,
-          title,
-          meta,
-          mention
+        const result = await deliverOperation(
+          notifier,
+          threadStore,
+          jobId,
+          { type: "postParentMessage", channel, title, meta, mention, source },
+          outbox
         );
 
-        debug("cmd:start", "Slack API response", { ok: result.ok, channel: result.channel, ts: result.ts });
+        debug("cmd:start", "Slack API response", { ok: result.ok, channel: result.channel, ts: result.ts, queued: result.queued });
+        recordStartCommit(threadStore, jobId, options["_cwd"] || process.cwd());
+
+        if (result.queued) {
+          console.log(JSON.stringify({
+            job_id: jobId,
+            channel,
+            thread_ts: "",
+            queued: true,
+            note: "Queued in outbox for retry",
+          }));
+          break;
+        }
 
         if (!result.ok) {
-          console.error("Error: Failed to post to Slack");
+          console.error(`Error: ${localize(CLI_MESSAGES).postFailed}`);
           debug("cmd:start", "Failed to post - exiting");
           process.exit(1);
         }
 
-        const state = threadStore.create(
-          jobId,
-          result.channel,
-          result.ts,
-          title,
-          result.permalink
-        );
+        const state = threadStore.get(jobId);
 
         debug("cmd:start", "Thread state created", state);
 
         console.log(JSON.stringify({
-          job_id: state.jobId,
-          channel: state.channel,
-          thread_ts: state.threadTs,
-          permalink: state.permalink,
+          job_id: jobId,
+          channel: state?.channel,
+          thread_ts: state?.threadTs,
+          permalink: state?.permalink,
         }));
         break;
       }
@@ -708,24 +1315,32 @@ async function main(): Promise<void> {
       case "update": {
         debug("cmd:update", "Processing update command", { jobId, message: options.message, level: options.level, hookEvent });
 
+        const progressOption = parseProgressOptions(options);
+        const attach = parseAttachOptions(options);
+
         // upsertモード: PostToolUseイベント時のみメッセージを上書き
-        // 明示的に--upsert=trueが指定された場合も上書き
-        let useUpsert = options.upsert === "true" || isPostToolUse;
+        // 明示的に--upsert=trueが指定された場合、または--current/--total指定時（--upsert=falseでなければ）も上書き
+        let useUpsert =
+          options.upsert === "true" ||
+          isPostToolUse ||
+          (progressOption !== undefined && options.upsert === undefined);
+        let clearProgressBefore = false;
 
         // メッセージの生成: --message > prompt自動生成 > tool詳細自動生成 > エラー
         let message = options.message;
+        const templates = resolveMessageTemplates(config.messageTemplates);
 
         // UserPromptSubmitイベントでpromptがある場合は自動生成
         // 新しいプロンプトなので新しいメッセージを投稿（上書きしない）
         if (!message && hookEvent === "UserPromptSubmit" && options["_prompt"]) {
           const prompt = options["_prompt"];
           const truncated = prompt.length > 100 ? prompt.slice(0, 100) + "..." : prompt;
-          message = `*Prompt:* ${truncated}`;
+          message = renderTemplate(templates.prompt, { prompt: truncated });
           debug("cmd:update", "Auto-generated message from prompt", { promptLength: prompt.length });
-          // UserPromptSubmitでは新しいメッセージを投稿するため、upsertを無効化しProgressMessageTsをクリア
+          // UserPromptSubmitでは新しいメッセージを投稿するため、upsertを無効化し送信時にProgressMessageTsをクリア
           useUpsert = false;
-          threadStore.clearProgressMessageTs(jobId);
-          debug("cmd:update", "Cleared progressMessageTs for new prompt (upsert disabled)");
+          clearProgressBefore = true;
+          debug("cmd:update", "Will clear progressMessageTs for new prompt (upsert disabled)");
         }
 
         // PostToolUseイベントでtool_nameがある場合は詳細情報を含めて自動生成
@@ -754,7 +1369,7 @@ async function main(): Promise<void> {
             }
           }
 
-          message = details ? `*${toolName}*: ${details}` : `*${toolName}*`;
+          message = renderTemplate(templates.tool, { tool: toolName, details });
           debug("cmd:update", "Auto-generated message from tool details", { toolName, details });
         }
 
@@ -763,27 +1378,24 @@ async function main(): Promise<void> {
         if (!message && hookEvent === "Stop" && options["_transcript_path"]) {
           const lastResponse = getLastAssistantResponse(options["_transcript_path"]);
           if (lastResponse) {
-            message = `*Response:* ${lastResponse}`;
+            message = renderTemplate(templates.response, { response: lastResponse });
             debug("cmd:update", "Auto-generated message from transcript", { responseLength: lastResponse.length });
           } else {
-            message = "応答完了";
+            message = templates.responseEmpty;
             debug("cmd:update", "Using default message (no response found in transcript)");
           }
           // PostToolUseのメッセージがあれば上書き、なければ新規投稿
-          const existingTs = threadStore.getProgressMessageTs(jobId);
-          if (existingTs) {
-            useUpsert = true;
-            debug("cmd:update", "Stop event will overwrite PostToolUse message", { existingTs });
-          } else {
-            useUpsert = false;
-            debug("cmd:update", "Stop event will create new message (no PostToolUse message)");
-          }
+          // （outboxからの再送でも正しいメッセージを上書きするよう、送信時に判定する）
+          useUpsert = true;
+          debug("cmd:update", "Stop event will overwrite PostToolUse message if present", {
+            existingTs: threadStore.getProgressMessageTs(jobId),
+          });
           // Stopイベント後は新しいプロンプトに備えてクリア
           // （upsert後にクリアするため、ここではクリアしない）
         }
 
         if (!message) {
-          console.error("Error: --message is required for update command");
+          console.error(`Error: ${localize(CLI_MESSAGES).messageRequired}`);
           process.exit(1);
         }
 
@@ -791,11 +1403,13 @@ async function main(): Promise<void> {
         const thread = await ensureThread(
           jobId,
           threadStore,
-          slackClient,
+          notifier,
           channel,
           options.title,
           options["_cwd"],
-          mention
+          mention,
+          outbox,
+          source
         );
 
         debug("cmd:update", "Thread lookup (lazy init)", {
@@ -812,38 +1426,41 @@ async function main(): Promise<void> {
           break;
         }
 
-        threadStore.updateStatus(jobId, "in_progress");
-        debug("cmd:update", "Updated job status to in_progress");
-
         const level = (options.level || "info") as "info" | "warn" | "debug";
 
-        // upsertモードの場合は既存メッセージを上書き
-        const existingMessageTs = useUpsert ? threadStore.getProgressMessageTs(jobId) : undefined;
-        debug("cmd:update", "Posting thread reply", { channel: thread.channel, threadTs: thread.threadTs, level, mention, useUpsert, existingMessageTs });
-
-        const result = await slackClient.upsertThreadReply(
-          thread.channel,
-          thread.threadTs,
-          message,
-          level,
-          mention,
-          existingMessageTs
-        );
-
         // 投稿したメッセージのtsを保存（次回の上書き用）
         // ただしStopイベントの場合は次のプロンプトに備えてクリア
-        if (result.ok && result.ts) {
-          if (hookEvent === "Stop") {
-            threadStore.clearProgressMessageTs(jobId);
-            debug("cmd:update", "Cleared progressMessageTs after Stop event");
-          } else if (useUpsert) {
-            threadStore.updateProgressMessageTs(jobId, result.ts);
-            debug("cmd:update", "Saved progress message ts", { ts: result.ts });
-          }
-        }
+        const progressAfter = hookEvent === "Stop" ? "clear" : useUpsert ? "save" : "keep";
+        debug("cmd:update", "Posting thread reply", { channel: thread.channel, threadTs: thread.threadTs, level, mention, useUpsert, progressAfter });
+
+        // ステータスのin_progress更新と上書き対象のts解決は送信時に行う
+        const result = await deliverOperation(
+          notifier,
+          threadStore,
+          jobId,
+          {
+            type: "upsertThreadReply",
+            channel: thread.channel,
+            threadTs: thread.threadTs || undefined,
+            message,
+            level,
+            mention,
+            clearProgressBefore,
+            upsert: useUpsert,
+            progressAfter,
+            progress: progressOption && { ...progressOption, at: new Date().toISOString() },
+            source,
+          },
+          outbox
+        );
 
-        debug("cmd:update", "Slack API response", { ok: result.ok, ts: result.ts });
-        console.log(JSON.stringify({ ok: result.ok, ts: result.ts }));
+        debug("cmd:update", "Slack API response", result);
+        const attachment = attach && await attachFile(notifier, threadStore, jobId, thread, attach, outbox, source);
+        console.log(JSON.stringify(
+          result.queued
+            ? { ok: false, queued: true, note: "Queued in outbox for retry", attachment }
+            : { ok: result.ok, ts: result.ts, attachment }
+        ));
         break;
       }
 
@@ -854,11 +1471,13 @@ async function main(): Promise<void> {
         const thread = await ensureThread(
           jobId,
           threadStore,
-          slackClient,
+          notifier,
           channel,
           options.title,
           options["_cwd"],
-          mention
+          mention,
+          outbox,
+          source
         );
 
         debug("cmd:waiting", "Thread lookup (lazy init)", {
@@ -887,63 +1506,70 @@ async function main(): Promise<void> {
         // notification_typeがある場合はプレフィックスを追加
         if (!reason && options["_notification_type"]) {
           // Notificationイベントでnotification_typeがある場合は自動生成
-          const typeMap: Record<string, string> = {
-            "permission_prompt": "権限確認待ち",
-            "idle_prompt": "アイドル状態",
-            "auth_success": "認証成功",
-            "elicitation_dialog": "追加情報の入力待ち",
-          };
+          const typeMap = localize(CLI_MESSAGES).notificationTypes;
           reason = typeMap[options["_notification_type"]] || options["_notification_type"];
           debug("cmd:waiting", "Auto-generated reason from notification_type", { notificationType: options["_notification_type"] });
         }
 
         if (!reason) {
-          reason = "Waiting for permission or user input";
+          reason = localize(CLI_MESSAGES).defaultWaitingReason;
         }
 
-        // PostToolUseのメッセージがあれば上書き
-        const existingMessageTs = threadStore.getProgressMessageTs(jobId);
+        // PostToolUseのメッセージがあれば上書き（上書き対象のtsは送信時に解決）
         debug("cmd:waiting", "Posting waiting message", {
           channel: thread.channel,
           threadTs: thread.threadTs,
           title: thread.title,
           reason,
           mention,
-          existingMessageTs,
+          existingMessageTs: threadStore.getProgressMessageTs(jobId),
         });
 
-        const result = await slackClient.postWaiting(
-          thread.channel,
-          thread.threadTs,
-          thread.title,
-          reason,
-          mention,
-          existingMessageTs
-        );
-
         // waiting後は次のプロンプトに備えてクリア
-        if (result.ok) {
-          threadStore.clearProgressMessageTs(jobId);
-          debug("cmd:waiting", "Cleared progressMessageTs after waiting");
-        }
+        const result = await deliverOperation(
+          notifier,
+          threadStore,
+          jobId,
+          {
+            type: "postWaiting",
+            channel: thread.channel,
+            threadTs: thread.threadTs || undefined,
+            title: thread.title,
+            reason,
+            mention,
+            upsert: true,
+            progressAfter: "clear",
+            at: new Date().toISOString(),
+            source,
+          },
+          outbox
+        );
 
-        debug("cmd:waiting", "Slack API response", { ok: result.ok });
-        console.log(JSON.stringify({ ok: result.ok }));
+        debug("cmd:waiting", "Slack API response", result);
+        console.log(JSON.stringify(
+          result.queued
+            ? { ok: false, queued: true, note: "Queued in outbox for retry" }
+            : { ok: result.ok }
+        ));
         break;
       }
 
       case "complete": {
         debug("cmd:complete", "Processing complete command", { jobId, summary: options.summary });
 
+        const attach = parseAttachOptions(options);
+
         // 遅延初期化: スレッドがなければ作成
         const thread = await ensureThread(
           jobId,
           threadStore,
-          slackClient,
+          notifier,
           channel,
           options.title,
           options["_cwd"],
-          mention
+          mention,
+          outbox,
+          source
         );
 
         debug("cmd:complete", "Thread lookup (lazy init)", {
@@ -971,25 +1597,46 @@ async function main(): Promise<void> {
           debug("cmd:complete", "Parsed nextSuggestions", nextSuggestions);
         }
 
+        // 開始時からのリポジトリの変更（git リポジトリでない場合は省略）
+        const gitChanges = options["git-summary"] === "true"
+          ? getGitChangeSummary(options["_cwd"] || process.cwd(), threadStore.get(jobId)?.startCommit)
+          : undefined;
+        debug("cmd:complete", "Git change summary", gitChanges);
+
         debug("cmd:complete", "Posting complete message", { channel: thread.channel, threadTs: thread.threadTs, title: thread.title, mention });
 
-        const result = await slackClient.postComplete(
-          thread.channel,
-          thread.threadTs,
-          thread.title,
-          options.summary,
-          nextSuggestions,
-          mention
+        // 成功時のステータス更新（completed）は送信時に行う
+        const result = await deliverOperation(
+          notifier,
+          threadStore,
+          jobId,
+          {
+            type: "postComplete",
+            channel: thread.channel,
+            threadTs: thread.threadTs || undefined,
+            title: thread.title,
+            summary: options.summary,
+            nextSuggestions,
+            gitChanges,
+            mention,
+            at: new Date().toISOString(),
+            source,
+          },
+          outbox
         );
 
-        debug("cmd:complete", "Slack API response", { ok: result.ok });
-
-        if (result.ok) {
-          threadStore.updateStatus(jobId, "completed");
-          debug("cmd:complete", "Updated job status to completed");
-        }
-
-        console.log(JSON.stringify({ ok: result.ok }));
+        debug("cmd:complete", "Slack API response", result);
+        const attachment = attach && await attachFile(notifier, threadStore, jobId, thread, attach, outbox, source);
+        console.log(JSON.stringify(
+          result.queued
+            ? { ok: false, queued: true, note: "Queued in outbox for retry", attachment }
+            : {
+                ok: result.ok,
+                durations: result.durations && toDurationsJson(result.durations),
+                git_changes: gitChanges && toGitChangeSummaryJson(gitChanges),
+                attachment,
+              }
+        ));
         break;
       }
 
@@ -998,19 +1645,22 @@ async function main(): Promise<void> {
 
         const errorSummary = options.error;
         if (!errorSummary) {
-          console.error("Error: --error is required for fail command");
+          console.error(`Error: ${localize(CLI_MESSAGES).errorRequired}`);
           process.exit(1);
         }
+        const attach = parseAttachOptions(options);
 
         // 遅延初期化: スレッドがなければ作成
         const thread = await ensureThread(
           jobId,
           threadStore,
-          slackClient,
+          notifier,
           channel,
           options.title,
           options["_cwd"],
-          mention
+          mention,
+          outbox,
+          source
         );
 
         debug("cmd:fail", "Thread lookup (lazy init)", {
@@ -1030,29 +1680,38 @@ async function main(): Promise<void> {
 
         debug("cmd:fail", "Posting fail message", { channel: thread.channel, threadTs: thread.threadTs, title: thread.title, errorSummary, mention });
 
-        const result = await slackClient.postFail(
-          thread.channel,
-          thread.threadTs,
-          thread.title,
-          errorSummary,
-          options["logs-hint"],
-          mention
+        // 成功時のステータス更新（failed）は送信時に行う
+        const result = await deliverOperation(
+          notifier,
+          threadStore,
+          jobId,
+          {
+            type: "postFail",
+            channel: thread.channel,
+            threadTs: thread.threadTs || undefined,
+            title: thread.title,
+            errorSummary,
+            logsHint: options["logs-hint"],
+            mention,
+            at: new Date().toISOString(),
+            source,
+          },
+          outbox
         );
 
-        debug("cmd:fail", "Slack API response", { ok: result.ok });
-
-        if (result.ok) {
-          threadStore.updateStatus(jobId, "failed");
-          debug("cmd:fail", "Updated job status to failed");
-        }
-
-        console.log(JSON.stringify({ ok: result.ok }));
+        debug("cmd:fail", "Slack API response", result);
+        const attachment = attach && await attachFile(notifier, threadStore, jobId, thread, attach, outbox, source);
+        console.log(JSON.stringify(
+          result.queued
+            ? { ok: false, queued: true, note: "Queued in outbox for retry", attachment }
+            : { ok: result.ok, durations: result.durations && toDurationsJson(result.durations), attachment }
+        ));
         break;
       }
 
       default:
         debug("main", "Unknown command", { command });
-        console.error(`Unknown command: ${command}`);
+        console.error(localize(CLI_MESSAGES).unknownCommand(command));
         printUsage();
         process.exit(1);
     }
@@ -1,27 +1,126 @@
+import { isNotifierType, NOTIFIER_TYPES } from "./lib/create-notifier.js";
+import { DEFAULT_DRY_RUN_PATH, isDryRunEnabled } from "./lib/dry-run.js";
+import { DEFAULT_LOCALE, isLocale, Locale, LOCALES, localize, setLocale } from "./lib/locale.js";
+import { loadMentionPolicyFile, MentionPolicy } from "./lib/mention-policy.js";
+import { loadMessageTemplatesFile, MessageTemplatesConfig } from "./lib/message-templates.js";
+import { NotifierType } from "./lib/notifier.js";
+import {
+  isParentStatusStyle,
+  PARENT_STATUS_STYLES,
+  ParentStatusStyle,
+  parseStatusReactions,
+  StatusReactions,
+} from "./lib/status-reactions.js";
+import { RetentionPolicy } from "./lib/thread-store.js";
+
 export const config = {
   name: "slack-thread-mcp",
   version: "0.1.0" as const,
 };
 
 export interface EnvConfig {
-  slackBotToken: string;
+  locale: Locale;
+  notifierType: NotifierType;
+  slackBotToken?: string;
+  slackApiUrl?: string;
   slackDefaultChannel: string;
+  slackWebhookUrl?: string;
+  webhookUrl?: string;
+  webhookHeaders?: Record<string, string>;
   slackMentionUserIds?: string[];
   slackMentionGroupId?: string;
   slackPostPrefix?: string;
+  slackParentStatus: ParentStatusStyle;
+  slackStatusReactions?: Partial<StatusReactions>;
+  messageTemplates?: MessageTemplatesConfig;
+  mentionPolicy?: MentionPolicy;
   threadStatePath?: string;
+  retention: RetentionPolicy;
+  dryRunPath?: string;
+}
+
+export interface LoadEnvConfigOptions {
+  dryRun?: boolean; // --dry-run フラグ
+}
+
+const MESSAGES = {
+  en: {
+    invalidValue: (name: string, value: string, expected: string[]) =>
+      `Invalid ${name} environment variable: ${value} (expected one of ${expected.join(", ")})`,
+    invalidDays: (name: string) => `${name} environment variable must be a non-negative number of days`,
+    notSet: (name: string) => `${name} environment variable is not set`,
+    invalidJson: (name: string) => `${name} environment variable must be valid JSON`,
+  },
+  ja: {
+    invalidValue: (name: string, value: string, expected: string[]) =>
+      `${name}環境変数の値が不正です: ${value}（${expected.join(", ")} のいずれか）`,
+    invalidDays: (name: string) => `${name}環境変数は0以上の日数で指定してください`,
+    notSet: (name: string) => `${name}環境変数が設定されていません`,
+    invalidJson: (name: string) => `${name}環境変数はJSON形式で指定してください`,
+  },
+};
+
+function parseRetentionDays(name: string): number | undefined {
+  const value = process.env[name];
+  if (!value) {
+    return undefined;
+  }
+  const days = Number(value);
+  if (!Number.isFinite(days) || days < 0) {
+    throw new Error(localize(MESSAGES).invalidDays(name));
+  }
+  return days;
 }
 
-export function loadEnvConfig(): EnvConfig {
+export function loadEnvConfig(options: LoadEnvConfigOptions = {}): EnvConfig {
+  // 以降のエラーメッセージにも反映するため、言語は最初に決める
+  const locale = process.env.SLACK_THREAD_LOCALE || DEFAULT_LOCALE;
+  if (!isLocale(locale)) {
+    throw new Error(localize(MESSAGES).invalidValue("SLACK_THREAD_LOCALE", locale, LOCALES));
+  }
+  setLocale(locale);
+
+  const notifierTypeRaw = process.env.NOTIFIER_TYPE || "slack";
+  if (!isNotifierType(notifierTypeRaw)) {
+    throw new Error(localize(MESSAGES).invalidValue("NOTIFIER_TYPE", notifierTypeRaw, NOTIFIER_TYPES));
+  }
+  const notifierType = notifierTypeRaw;
+
   const slackBotToken = process.env.SLACK_BOT_TOKEN;
   const slackDefaultChannel = process.env.SLACK_DEFAULT_CHANNEL;
+  const slackWebhookUrl = process.env.SLACK_WEBHOOK_URL;
+  const webhookUrl = process.env.NOTIFIER_WEBHOOK_URL;
+  const dryRun = options.dryRun || isDryRunEnabled(process.env.SLACK_THREAD_DRY_RUN);
+  const dryRunPath = dryRun
+    ? process.env.SLACK_THREAD_DRY_RUN_PATH || DEFAULT_DRY_RUN_PATH
+    : undefined;
 
-  if (!slackBotToken) {
-    throw new Error("SLACK_BOT_TOKEN環境変数が設定されていません");
+  // dry-run 時は API を呼ばないため認証情報は不要
+  if (notifierType === "slack" && !dryRun) {
+    if (!slackBotToken) {
+      throw new Error(localize(MESSAGES).notSet("SLACK_BOT_TOKEN"));
+    }
+
+    if (!slackDefaultChannel) {
+      throw new Error(localize(MESSAGES).notSet("SLACK_DEFAULT_CHANNEL"));
+    }
+  }
+
+  if (notifierType === "slack-webhook" && !slackWebhookUrl && !dryRun) {
+    throw new Error(localize(MESSAGES).notSet("SLACK_WEBHOOK_URL"));
   }
 
-  if (!slackDefaultChannel) {
-    throw new Error("SLACK_DEFAULT_CHANNEL環境変数が設定されていません");
+  if (notifierType === "webhook" && !webhookUrl && !dryRun) {
+    throw new Error(localize(MESSAGES).notSet("NOTIFIER_WEBHOOK_URL"));
+  }
+
+  let webhookHeaders: Record<string, string> | undefined;
+  if (process.env.NOTIFIER_WEBHOOK_HEADERS) {
+    try {
+      webhookHeaders = JSON.parse(process.env.NOTIFIER_WEBHOOK_HEADERS);
+    } catch {
+      throw new Error(localize(MESSAGES).invalidJson("NOTIFIER_WEBHOOK_HEADERS"));
+    }
   }
 
   const mentionUserIdsRaw = process.env.SLACK_MENTION_USER_IDS;
@@ -29,12 +128,46 @@ export function loadEnvConfig(): EnvConfig {
     ? mentionUserIdsRaw.split(",").map((id) => id.trim())
     : undefined;
 
+  const slackParentStatus = process.env.SLACK_PARENT_STATUS || "edit";
+  if (!isParentStatusStyle(slackParentStatus)) {
+    throw new Error(
+      localize(MESSAGES).invalidValue("SLACK_PARENT_STATUS", slackParentStatus, PARENT_STATUS_STYLES)
+    );
+  }
+
+  const slackStatusReactions = process.env.SLACK_STATUS_REACTIONS
+    ? parseStatusReactions(process.env.SLACK_STATUS_REACTIONS)
+    : undefined;
+
+  const messageTemplates = process.env.SLACK_MESSAGE_TEMPLATES_PATH
+    ? loadMessageTemplatesFile(process.env.SLACK_MESSAGE_TEMPLATES_PATH)
+    : undefined;
+
+  const mentionPolicy = process.env.SLACK_MENTION_POLICY_PATH
+    ? loadMentionPolicyFile(process.env.SLACK_MENTION_POLICY_PATH)
+    : undefined;
+
   return {
+    locale,
+    notifierType,
     slackBotToken,
-    slackDefaultChannel,
+    slackApiUrl: process.env.SLACK_API_URL,
+    slackDefaultChannel: slackDefaultChannel || "",
+    slackWebhookUrl,
+    webhookUrl,
+    webhookHeaders,
     slackMentionUserIds,
     slackMentionGroupId: process.env.SLACK_MENTION_GROUP_ID,
     slackPostPrefix: process.env.SLACK_POST_PREFIX,
+    slackParentStatus,
+    slackStatusReactions,
+    messageTemplates,
+    mentionPolicy,
     threadStatePath: process.env.THREAD_STATE_PATH,
+    retention: {
+      terminalDays: parseRetentionDays("THREAD_RETENTION_DAYS"),
+      placeholderDays: parseRetentionDays("THREAD_PLACEHOLDER_RETENTION_DAYS"),
+    },
+    dryRunPath,
   };
 }
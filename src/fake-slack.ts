@@ -0,0 +1,148 @@
+#!/usr/bin/env node
+
+import { FakeSlackServer } from "./lib/fake-slack-server.js";
+import { DEFAULT_LOCALE, isLocale, LOCALES, localize, setLocale } from "./lib/locale.js";
+
+const MESSAGES = {
+  en: {
+    invalidLocale: (value: string) => `Invalid SLACK_THREAD_LOCALE: ${value} (expected one of ${LOCALES.join(", ")})`,
+    invalidPort: (value: string) => `Invalid port: ${value} (expected a non-negative integer)`,
+    listenFailed: (address: string, reason: string) => `Cannot listen on ${address}: ${reason}`,
+    listening: (baseUrl: string) => `Fake Slack API listening on ${baseUrl}`,
+    usage: `
+Usage: fake-slack [options]
+
+Starts a local Slack Web API compatible server with in-memory threads.
+Supported methods: auth.test, chat.postMessage, chat.update,
+chat.getPermalink, conversations.replies, reactions.add, reactions.remove,
+files.getUploadURLExternal, files.completeUploadExternal (files.uploadV2)
+
+Options:
+  --port=<port>   Port to listen on (default: 3939, env: FAKE_SLACK_PORT)
+  --host=<host>   Host to bind (default: 127.0.0.1)
+  --quiet         Don't log API calls
+
+Environment:
+  SLACK_THREAD_LOCALE  Language of this help and error messages: en, ja (default: ja)
+
+Viewer:
+  GET /                         All threads as they would look
+  GET /threads?format=json      Raw stored messages
+  GET /threads/<channel>/<ts>   A single thread
+
+Replying as a human:
+  POST /threads/<channel>/<ts>  Body: text=<text>[&user=<user_id>] (form or JSON)
+
+Example:
+  fake-slack --port=3939
+  SLACK_API_URL=http://127.0.0.1:3939/api/ SLACK_BOT_TOKEN=xoxb-fake \\
+    SLACK_DEFAULT_CHANNEL=C0FAKE slack-thread-mcp start --job-id=demo --title="Demo"
+  curl http://127.0.0.1:3939/
+  curl -d text="LGTM" http://127.0.0.1:3939/threads/C0FAKE/<thread_ts>
+`,
+  },
+  ja: {
+    invalidLocale: (value: string) =>
+      `SLACK_THREAD_LOCALE の指定が不正です: ${value}（${LOCALES.join(", ")} のいずれか）`,
+    invalidPort: (value: string) => `ポートの指定が不正です: ${value}（0以上の整数で指定してください）`,
+    listenFailed: (address: string, reason: string) => `${address} で待ち受けできません: ${reason}`,
+    listening: (baseUrl: string) => `Fake Slack API を ${baseUrl} で起動しました`,
+    usage: `
+使い方: fake-slack [オプション]
+
+スレッドをメモリ上に保持する、Slack Web API 互換のローカルサーバーを起動します。
+対応メソッド: auth.test, chat.postMessage, chat.update,
+chat.getPermalink, conversations.replies, reactions.add, reactions.remove,
+files.getUploadURLExternal, files.completeUploadExternal (files.uploadV2)
+
+オプション:
+  --port=<port>   待ち受けるポート（デフォルト: 3939、環境変数: FAKE_SLACK_PORT）
+  --host=<host>   バインドするホスト（デフォルト: 127.0.0.1）
+  --quiet         API 呼び出しのログを出力しない
+
+環境変数:
+  SLACK_THREAD_LOCALE  このヘルプとエラーメッセージの言語: en, ja（デフォルト: ja）
+
+ビューアー:
+  GET /                         すべてのスレッドを Slack 上の見た目で表示
+  GET /threads?format=json      保存したメッセージをそのまま出力
+  GET /threads/<channel>/<ts>   1つのスレッドを表示
+
+人として返信する:
+  POST /threads/<channel>/<ts>  本文: text=<text>[&user=<user_id>]（フォームまたは JSON）
+
+例:
+  fake-slack --port=3939
+  SLACK_API_URL=http://127.0.0.1:3939/api/ SLACK_BOT_TOKEN=xoxb-fake \\
+    SLACK_DEFAULT_CHANNEL=C0FAKE slack-thread-mcp start --job-id=demo --title="Demo"
+  curl http://127.0.0.1:3939/
+  curl -d text="LGTM" http://127.0.0.1:3939/threads/C0FAKE/<thread_ts>
+`,
+  },
+};
+
+function printUsage(): void {
+  console.log(localize(MESSAGES).usage);
+}
+
+async function main(): Promise<void> {
+  const locale = process.env.SLACK_THREAD_LOCALE || DEFAULT_LOCALE;
+  if (!isLocale(locale)) {
+    console.error(`Error: ${localize(MESSAGES).invalidLocale(locale)}`);
+    process.exit(1);
+  }
+  setLocale(locale);
+
+  const args = process.argv.slice(2);
+  if (args.includes("--help") || args.includes("-h") || args[0] === "help") {
+    printUsage();
+    process.exit(0);
+  }
+
+  const options: Record<string, string> = {};
+  for (const arg of args) {
+    if (arg.startsWith("--")) {
+      const [key, ...valueParts] = arg.slice(2).split("=");
+      options[key] = valueParts.join("=") || "true";
+    }
+  }
+
+  const portValue = options.port || process.env.FAKE_SLACK_PORT || "3939";
+  const port = Number(portValue);
+  if (!Number.isInteger(port) || port < 0) {
+    console.error(`Error: ${localize(MESSAGES).invalidPort(portValue)}`);
+    process.exit(1);
+  }
+
+  const server = new FakeSlackServer({
+    port,
+    host: options.host,
+    log: options.quiet === "true"
+      ? undefined
+      : (line) => console.log(`[${new Date().toISOString()}] ${line}`),
+  });
+
+  let address: { port: number; host: string };
+  try {
+    address = await server.listen();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${localize(MESSAGES).listenFailed(`${options.host || "127.0.0.1"}:${port}`, reason)}`);
+    process.exit(1);
+  }
+  const baseUrl = `http://${address.host}:${address.port}`;
+  console.log(localize(MESSAGES).listening(baseUrl));
+  console.log(`  SLACK_API_URL=${baseUrl}/api/`);
+  console.log(`  Viewer: ${baseUrl}/`);
+
+  const shutdown = () => {
+    server.close().then(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("Error:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -2,26 +2,50 @@
 
 import { FastMCP } from "fastmcp";
 import { config, loadEnvConfig } from "./config.js";
-import { SlackClient } from "./lib/slack-client.js";
+import { createNotifier } from "./lib/create-notifier.js";
 import { ThreadStore } from "./lib/thread-store.js";
 import { slackThreadTools } from "./tools/slack-thread.js";
 
-const envConfig = loadEnvConfig();
+const envConfig = loadEnvConfig({
+  dryRun: process.argv.includes("--dry-run"),
+});
 
-const slackClient = new SlackClient({
+const notifier = createNotifier({
+  type: envConfig.notifierType,
   botToken: envConfig.slackBotToken,
+  slackApiUrl: envConfig.slackApiUrl,
+  slackWebhookUrl: envConfig.slackWebhookUrl,
+  webhookUrl: envConfig.webhookUrl,
+  webhookHeaders: envConfig.webhookHeaders,
   defaultChannel: envConfig.slackDefaultChannel,
   mentionUserIds: envConfig.slackMentionUserIds,
   mentionGroupId: envConfig.slackMentionGroupId,
   postPrefix: envConfig.slackPostPrefix,
+  parentStatusStyle: envConfig.slackParentStatus,
+  statusReactions: envConfig.slackStatusReactions,
+  templates: envConfig.messageTemplates,
+  mentionPolicy: envConfig.mentionPolicy,
+  dryRunPath: envConfig.dryRunPath,
 });
 
-const threadStore = new ThreadStore(envConfig.threadStatePath);
+const threadStore = new ThreadStore(envConfig.threadStatePath, undefined, envConfig.retention);
 
 const server = new FastMCP(config);
 
-slackThreadTools(server, slackClient, threadStore);
+slackThreadTools(server, notifier, threadStore);
 
 server.start({
   transportType: "stdio",
 });
+
+// 終了時（シグナル受信・標準入力の終了）にまとめ待ちの進捗を送信
+let shuttingDown = false;
+const shutdown = () => {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  threadStore.flushAllUpdates().finally(() => process.exit(0));
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
+process.stdin.on("end", shutdown);
+process.stdin.on("close", shutdown);
@@ -0,0 +1,66 @@
+import { existsSync, readFileSync, statSync } from "fs";
+import { basename } from "path";
+import { localize } from "./locale.js";
+import { FileAttachment } from "./notifier.js";
+
+const MESSAGES = {
+  en: {
+    invalidTail: "The number of tail lines must be a positive integer",
+    fileNotFound: (path: string) => `File to attach not found: ${path}`,
+  },
+  ja: {
+    invalidTail: "末尾の行数は正の整数で指定してください",
+    fileNotFound: (path: string) => `添付するファイルが見つかりません: ${path}`,
+  },
+};
+
+/**
+ * テキストの末尾 N 行（末尾の改行は行数に数えない）
+ */
+export function tailLines(text: string, lines: number): string {
+  const all = text.replace(/\n$/, "").split("\n");
+  return all.slice(-lines).join("\n") + "\n";
+}
+
+/**
+ * 末尾の行数の指定を検証（不正な場合はエラーメッセージを返す）
+ */
+export function validateTailLines(value: number | undefined): string | undefined {
+  if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+    return localize(MESSAGES).invalidTail;
+  }
+  return undefined;
+}
+
+/**
+ * 文字列からファイルを作成（tail 指定時は末尾の N 行のみ）
+ */
+export function textAttachment(
+  filename: string,
+  text: string,
+  tail?: number,
+  comment?: string
+): FileAttachment {
+  return {
+    filename,
+    content: Buffer.from(tail ? tailLines(text, tail) : text, "utf-8"),
+    title: tail ? `${filename} (last ${tail} lines)` : filename,
+    comment,
+  };
+}
+
+/**
+ * 添付するファイルを読み込む（tail 指定時はテキストとして末尾の N 行のみ）
+ * ファイルが存在しない場合はエラー
+ */
+export function readAttachment(path: string, tail?: number, comment?: string): FileAttachment {
+  if (!existsSync(path) || !statSync(path).isFile()) {
+    throw new Error(localize(MESSAGES).fileNotFound(path));
+  }
+
+  const filename = basename(path);
+  if (tail) {
+    return textAttachment(filename, readFileSync(path, "utf-8"), tail, comment);
+  }
+  return { filename, content: readFileSync(path), title: filename, comment };
+}
@@ -0,0 +1,87 @@
+import { localize } from "./locale.js";
+import { Notifier, NotifierConfig, NotifierType } from "./notifier.js";
+import { SlackClient } from "./slack-client.js";
+import { SlackWebhookNotifier } from "./slack-webhook-notifier.js";
+import { ParentStatusStyle, StatusReactions } from "./status-reactions.js";
+import { WebhookNotifier } from "./webhook-notifier.js";
+
+export interface NotifierOptions extends NotifierConfig {
+  type?: NotifierType;
+  botToken?: string;
+  slackApiUrl?: string;
+  slackWebhookUrl?: string;
+  webhookUrl?: string;
+  webhookHeaders?: Record<string, string>;
+  dryRunPath?: string;
+  failFast?: boolean;
+  parentStatusStyle?: ParentStatusStyle;
+  statusReactions?: Partial<StatusReactions>;
+}
+
+export const NOTIFIER_TYPES: NotifierType[] = ["slack", "slack-webhook", "webhook"];
+
+const MESSAGES = {
+  en: {
+    missingBotToken: "The slack backend requires a Bot Token",
+    missingSlackWebhookUrl: "The slack-webhook backend requires an Incoming Webhook URL",
+    missingWebhookUrl: "The webhook backend requires a Webhook URL",
+  },
+  ja: {
+    missingBotToken: "slack バックエンドには Bot Token が必要です",
+    missingSlackWebhookUrl: "slack-webhook バックエンドには Incoming Webhook URL が必要です",
+    missingWebhookUrl: "webhook バックエンドには Webhook URL が必要です",
+  },
+};
+
+export function isNotifierType(value: string): value is NotifierType {
+  return (NOTIFIER_TYPES as string[]).includes(value);
+}
+
+/**
+ * 設定に応じた通知バックエンドを生成
+ * dryRunPath 指定時はバックエンドの種類に関わらず、Slack API 呼び出しを記録するだけのクライアントを返す
+ */
+export function createNotifier(options: NotifierOptions): Notifier {
+  if (options.dryRunPath) {
+    return new SlackClient({
+      ...options,
+      botToken: options.botToken ?? "",
+      defaultChannel: options.defaultChannel || "dry-run",
+      dryRunPath: options.dryRunPath,
+    });
+  }
+
+  const type = options.type ?? "slack";
+
+  switch (type) {
+    case "slack": {
+      if (!options.botToken) {
+        throw new Error(localize(MESSAGES).missingBotToken);
+      }
+      return new SlackClient({
+        ...options,
+        botToken: options.botToken,
+        apiUrl: options.slackApiUrl,
+        failFast: options.failFast,
+      });
+    }
+
+    case "slack-webhook": {
+      if (!options.slackWebhookUrl) {
+        throw new Error(localize(MESSAGES).missingSlackWebhookUrl);
+      }
+      return new SlackWebhookNotifier({ ...options, webhookUrl: options.slackWebhookUrl });
+    }
+
+    case "webhook": {
+      if (!options.webhookUrl) {
+        throw new Error(localize(MESSAGES).missingWebhookUrl);
+      }
+      return new WebhookNotifier({
+        ...options,
+        url: options.webhookUrl,
+        headers: options.webhookHeaders,
+      });
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { JsonFileThreadStorage } from "./json-thread-storage.js";
+import { SqliteThreadStorage } from "./sqlite-thread-storage.js";
+import { MemoryThreadStorage, parseThreadStatePath, ThreadStorage } from "./thread-storage.js";
+
+/**
+ * THREAD_STATE_PATH に応じた永続化バックエンドを生成
+ */
+export function createThreadStorage(threadStatePath?: string): ThreadStorage {
+  const location = parseThreadStatePath(threadStatePath);
+
+  switch (location.type) {
+    case "memory":
+      return new MemoryThreadStorage();
+    case "json":
+      return new JsonFileThreadStorage(location.path as string);
+    case "sqlite":
+      return new SqliteThreadStorage(location.path as string);
+  }
+}
@@ -0,0 +1,48 @@
+import { appendFileSync, existsSync, mkdirSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+
+export const DEFAULT_DRY_RUN_PATH = join(
+  homedir(),
+  ".local",
+  "share",
+  "slack-thread-mcp",
+  "dry-run.jsonl"
+);
+
+/**
+ * dry-run 時に記録される1行分のレコード
+ */
+export interface DryRunRecord {
+  method: string;
+  payload: unknown;
+  ts?: string;
+  recordedAt: string;
+}
+
+export function isDryRunEnabled(value: string | undefined): boolean {
+  return value === "true" || value === "1";
+}
+
+/**
+ * 送信されるはずだった API 呼び出しを JSONL ファイルに追記
+ */
+export function appendDryRunRecord(
+  path: string,
+  method: string,
+  payload: unknown,
+  ts?: string
+): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  const record: DryRunRecord = {
+    method,
+    payload,
+    ts,
+    recordedAt: new Date().toISOString(),
+  };
+  appendFileSync(path, JSON.stringify(record) + "\n", "utf-8");
+}
@@ -0,0 +1,57 @@
+export const MINUTE_MS = 60 * 1000;
+export const HOUR_MS = 60 * MINUTE_MS;
+export const DAY_MS = 24 * HOUR_MS;
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: MINUTE_MS,
+  h: HOUR_MS,
+  d: DAY_MS,
+  w: 7 * DAY_MS,
+};
+
+/**
+ * "30d" / "12h" / "90m" / "2w" のような期間指定をミリ秒に変換（単位なしは日数）
+ * 不正な形式の場合は undefined を返す
+ */
+export function parseDuration(value: string): number | undefined {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)([smhdw]?)$/);
+  if (!match) {
+    return undefined;
+  }
+  return Number(match[1]) * DURATION_UNITS_MS[match[2] || "d"];
+}
+
+/**
+ * ミリ秒を "45s" / "12m" / "3h" / "5d" のような短い表記に変換（上位の単位に切り捨て）
+ */
+export function formatDurationShort(ms: number): string {
+  const abs = Math.max(0, ms);
+  if (abs < MINUTE_MS) return `${Math.floor(abs / 1000)}s`;
+  if (abs < HOUR_MS) return `${Math.floor(abs / MINUTE_MS)}m`;
+  if (abs < DAY_MS) return `${Math.floor(abs / HOUR_MS)}h`;
+  return `${Math.floor(abs / DAY_MS)}d`;
+}
+
+/**
+ * ミリ秒を "45s" / "12m 30s" / "3h 5m" / "2d 4h" のように上位2つの単位で表記
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(Math.max(0, ms) / 1000);
+  const parts: Array<[number, string]> = [
+    [Math.floor(totalSeconds / 86400), "d"],
+    [Math.floor((totalSeconds % 86400) / 3600), "h"],
+    [Math.floor((totalSeconds % 3600) / 60), "m"],
+    [totalSeconds % 60, "s"],
+  ];
+
+  const first = parts.findIndex(([value]) => value > 0);
+  if (first === -1) {
+    return "0s";
+  }
+  return parts
+    .slice(first, first + 2)
+    .filter(([value]) => value > 0)
+    .map(([value, unit]) => `${value}${unit}`)
+    .join(" ");
+}
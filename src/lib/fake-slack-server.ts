@@ -0,0 +1,522 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+
+export const FAKE_BOT_USER_ID = "UFAKEBOT";
+export const FAKE_BOT_ID = "BFAKEBOT";
+export const FAKE_HUMAN_USER_ID = "UFAKEHUMAN";
+
+export interface FakeSlackMessage {
+  type: "message";
+  channel: string;
+  ts: string;
+  thread_ts?: string;
+  text: string;
+  blocks?: unknown[];
+  user: string;
+  bot_id?: string;
+  edited?: { user: string; ts: string };
+  reply_count?: number;
+  reactions?: { name: string; users: string[]; count: number }[];
+  files?: FakeSlackFile[];
+}
+
+export interface FakeSlackFile {
+  id: string;
+  name: string;
+  title: string;
+  size: number;
+  permalink: string;
+}
+
+export interface FakeSlackServerOptions {
+  port?: number;
+  host?: string;
+  log?: (line: string) => void;
+}
+
+type ApiParams = Record<string, unknown>;
+type ApiResult = Record<string, unknown> & { ok: boolean };
+
+interface BlockLike {
+  type?: string;
+  text?: { text?: string };
+  fields?: { text?: string }[];
+  elements?: { text?: string }[];
+}
+
+/**
+ * ローカル検証用の Slack Web API 互換サーバー
+ * スレッドはメモリ上にのみ保持される
+ */
+export class FakeSlackServer {
+  private server: Server;
+  private messages: Map<string, FakeSlackMessage[]> = new Map();
+  // files.getUploadURLExternal で発行し、files.completeUploadExternal で共有するファイル
+  private uploads: Map<string, { name: string; size: number; uploaded: boolean }> = new Map();
+  private tsCounter = 0;
+  private fileCounter = 0;
+  private options: FakeSlackServerOptions;
+
+  constructor(options: FakeSlackServerOptions = {}) {
+    this.options = options;
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.sendJson(res, 500, { ok: false, error: String(error) });
+      });
+    });
+  }
+
+  listen(): Promise<{ port: number; host: string }> {
+    const host = this.options.host ?? "127.0.0.1";
+    return new Promise((resolve, reject) => {
+      // ポートが使用中などで待ち受けできない場合
+      this.server.once("error", reject);
+      this.server.listen(this.options.port ?? 0, host, () => {
+        this.server.off("error", reject);
+        const address = this.server.address();
+        const port = typeof address === "object" && address ? address.port : 0;
+        resolve({ port, host });
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * 人間のユーザーとしてスレッドに返信する（slack_thread_read_replies などの検証用）
+   */
+  addReply(
+    channel: string,
+    threadTs: string,
+    text: string,
+    user: string = FAKE_HUMAN_USER_ID
+  ): FakeSlackMessage | undefined {
+    if (!this.find(channel, threadTs)) {
+      return undefined;
+    }
+    return this.store({
+      type: "message",
+      channel,
+      ts: this.nextTs(),
+      thread_ts: threadTs,
+      text,
+      user,
+    });
+  }
+
+  private log(line: string): void {
+    this.options.log?.(line);
+  }
+
+  private nextTs(): string {
+    this.tsCounter++;
+    const seconds = Math.floor(Date.now() / 1000);
+    return `${seconds}.${String(this.tsCounter).padStart(6, "0")}`;
+  }
+
+  private store(message: FakeSlackMessage): FakeSlackMessage {
+    const list = this.messages.get(message.channel) ?? [];
+    list.push(message);
+    this.messages.set(message.channel, list);
+
+    if (message.thread_ts) {
+      const parent = list.find((m) => m.ts === message.thread_ts);
+      if (parent) {
+        parent.reply_count = (parent.reply_count ?? 0) + 1;
+      }
+    }
+
+    return message;
+  }
+
+  private find(channel: string, ts: string): FakeSlackMessage | undefined {
+    return this.messages.get(channel)?.find((m) => m.ts === ts);
+  }
+
+  private baseUrl(req: IncomingMessage): string {
+    return `http://${req.headers.host ?? "localhost"}`;
+  }
+
+  private async readBody(req: IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString("utf-8");
+  }
+
+  /**
+   * WebClient は form-urlencoded で送信し、配列/オブジェクトは JSON 文字列になる
+   */
+  private async parseParams(req: IncomingMessage, url: URL): Promise<ApiParams> {
+    const params: ApiParams = Object.fromEntries(url.searchParams);
+    const body = await this.readBody(req);
+    if (!body) {
+      return params;
+    }
+
+    const contentType = req.headers["content-type"] ?? "";
+    if (contentType.includes("application/json")) {
+      return { ...params, ...(JSON.parse(body) as ApiParams) };
+    }
+
+    for (const [key, value] of new URLSearchParams(body)) {
+      if (value.startsWith("[") || value.startsWith("{")) {
+        try {
+          params[key] = JSON.parse(value);
+          continue;
+        } catch {
+          // 文字列として扱う
+        }
+      }
+      params[key] = value;
+    }
+    return params;
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendText(res: ServerResponse, status: number, body: string): void {
+    res.writeHead(status, { "Content-Type": "text/plain; charset=utf-8" });
+    res.end(body);
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", this.baseUrl(req));
+
+    if (url.pathname.startsWith("/api/")) {
+      const method = url.pathname.slice("/api/".length);
+      const params = await this.parseParams(req, url);
+      const result = this.callMethod(method, params, req);
+      this.log(`${method} ${result.ok ? "ok" : `error=${result.error}`}`);
+      this.sendJson(res, 200, result);
+      return;
+    }
+
+    if (req.method === "GET" && (url.pathname === "/" || url.pathname === "/threads")) {
+      if (url.searchParams.get("format") === "json") {
+        this.sendJson(res, 200, Object.fromEntries(this.messages));
+        return;
+      }
+      this.sendText(res, 200, this.renderAll());
+      return;
+    }
+
+    // files.getUploadURLExternal が返すアップロード先（本文は保持せずサイズのみ記録）
+    const uploadMatch = url.pathname.match(/^\/upload\/([^/]+)$/);
+    if (req.method === "POST" && uploadMatch) {
+      const upload = this.uploads.get(uploadMatch[1]);
+      if (!upload) {
+        this.sendText(res, 404, "upload not found\n");
+        return;
+      }
+      await this.readBody(req);
+      upload.uploaded = true;
+      this.log(`upload ${uploadMatch[1]} ${upload.name}`);
+      this.sendText(res, 200, `OK - ${upload.size}`);
+      return;
+    }
+
+    // /threads/:channel/:ts または permalink 形式 /archives/:channel/p:ts
+    const threadMatch = url.pathname.match(/^\/(?:threads|archives)\/([^/]+)\/p?([\d.]+)$/);
+    if (req.method === "POST" && threadMatch) {
+      const [, channel, ts] = threadMatch;
+      const params = await this.parseParams(req, url);
+      if (!params.text) {
+        this.sendJson(res, 400, { ok: false, error: "no_text" });
+        return;
+      }
+      const message = this.addReply(
+        channel,
+        ts,
+        String(params.text),
+        params.user ? String(params.user) : undefined
+      );
+      if (!message) {
+        this.sendJson(res, 404, { ok: false, error: "thread_not_found" });
+        return;
+      }
+      this.log(`reply from ${message.user} in ${channel}/${ts}`);
+      this.sendJson(res, 200, { ok: true, channel, ts: message.ts, message });
+      return;
+    }
+    if (req.method === "GET" && threadMatch) {
+      const [, channel, rawTs] = threadMatch;
+      const ts = rawTs.includes(".") ? rawTs : `${rawTs.slice(0, -6)}.${rawTs.slice(-6)}`;
+      const parent = this.find(channel, ts);
+      if (!parent) {
+        this.sendText(res, 404, "thread not found\n");
+        return;
+      }
+      this.sendText(res, 200, this.renderThread(parent));
+      return;
+    }
+
+    this.sendText(res, 404, "not found\n");
+  }
+
+  private callMethod(method: string, params: ApiParams, req: IncomingMessage): ApiResult {
+    const channel = params.channel ? String(params.channel) : undefined;
+
+    switch (method) {
+      case "auth.test":
+        return {
+          ok: true,
+          url: `${this.baseUrl(req)}/`,
+          team: "Fake Workspace",
+          user: "fake-bot",
+          team_id: "TFAKE",
+          user_id: FAKE_BOT_USER_ID,
+          bot_id: FAKE_BOT_ID,
+        };
+
+      case "chat.postMessage": {
+        if (!channel) {
+          return { ok: false, error: "channel_not_found" };
+        }
+        if (!params.text && !params.blocks) {
+          return { ok: false, error: "no_text" };
+        }
+        const threadTs = params.thread_ts ? String(params.thread_ts) : undefined;
+        if (threadTs && !this.find(channel, threadTs)) {
+          return { ok: false, error: "thread_not_found" };
+        }
+        const message = this.store({
+          type: "message",
+          channel,
+          ts: this.nextTs(),
+          thread_ts: threadTs,
+          text: String(params.text ?? ""),
+          blocks: Array.isArray(params.blocks) ? params.blocks : undefined,
+          user: FAKE_BOT_USER_ID,
+          bot_id: FAKE_BOT_ID,
+        });
+        return { ok: true, channel, ts: message.ts, message };
+      }
+
+      case "chat.update": {
+        const message = channel && params.ts ? this.find(channel, String(params.ts)) : undefined;
+        if (!message) {
+          return { ok: false, error: "message_not_found" };
+        }
+        if (params.text !== undefined) {
+          message.text = String(params.text);
+        }
+        if (Array.isArray(params.blocks)) {
+          message.blocks = params.blocks;
+        }
+        message.edited = { user: FAKE_BOT_USER_ID, ts: this.nextTs() };
+        return { ok: true, channel, ts: message.ts, text: message.text };
+      }
+
+      case "chat.getPermalink": {
+        const ts = params.message_ts ? String(params.message_ts) : "";
+        if (!channel || !this.find(channel, ts)) {
+          return { ok: false, error: "message_not_found" };
+        }
+        return {
+          ok: true,
+          channel,
+          permalink: `${this.baseUrl(req)}/archives/${channel}/p${ts.replace(".", "")}`,
+        };
+      }
+
+      case "reactions.add":
+      case "reactions.remove": {
+        const message =
+          channel && params.timestamp ? this.find(channel, String(params.timestamp)) : undefined;
+        if (!message) {
+          return { ok: false, error: "message_not_found" };
+        }
+        const name = params.name ? String(params.name) : "";
+        if (!name) {
+          return { ok: false, error: "invalid_name" };
+        }
+        const reactions = message.reactions ?? [];
+        const existing = reactions.find((r) => r.name === name);
+
+        if (method === "reactions.add") {
+          if (existing?.users.includes(FAKE_BOT_USER_ID)) {
+            return { ok: false, error: "already_reacted" };
+          }
+          if (existing) {
+            existing.users.push(FAKE_BOT_USER_ID);
+            existing.count++;
+          } else {
+            reactions.push({ name, users: [FAKE_BOT_USER_ID], count: 1 });
+          }
+        } else {
+          if (!existing?.users.includes(FAKE_BOT_USER_ID)) {
+            return { ok: false, error: "no_reaction" };
+          }
+          existing.users = existing.users.filter((u) => u !== FAKE_BOT_USER_ID);
+          existing.count--;
+        }
+
+        message.reactions = reactions.filter((r) => r.count > 0);
+        return { ok: true };
+      }
+
+      case "files.getUploadURLExternal": {
+        const name = params.filename ? String(params.filename) : "";
+        const size = Number(params.length);
+        if (!name || !Number.isInteger(size) || size < 0) {
+          return { ok: false, error: "invalid_arguments" };
+        }
+        this.fileCounter++;
+        const fileId = `FFAKE${String(this.fileCounter).padStart(6, "0")}`;
+        this.uploads.set(fileId, { name, size, uploaded: false });
+        return { ok: true, upload_url: `${this.baseUrl(req)}/upload/${fileId}`, file_id: fileId };
+      }
+
+      case "files.completeUploadExternal": {
+        const entries = Array.isArray(params.files)
+          ? (params.files as { id?: string; title?: string }[])
+          : [];
+        const channelId = params.channel_id ? String(params.channel_id) : undefined;
+        const threadTs = params.thread_ts ? String(params.thread_ts) : undefined;
+        if (entries.length === 0) {
+          return { ok: false, error: "invalid_arguments" };
+        }
+        if (threadTs && (!channelId || !this.find(channelId, threadTs))) {
+          return { ok: false, error: "invalid_thread_ts" };
+        }
+
+        const files: FakeSlackFile[] = [];
+        for (const entry of entries) {
+          const upload = entry.id ? this.uploads.get(entry.id) : undefined;
+          if (!entry.id || !upload?.uploaded) {
+            return { ok: false, error: "file_not_found" };
+          }
+          files.push({
+            id: entry.id,
+            name: upload.name,
+            title: entry.title ?? upload.name,
+            size: upload.size,
+            permalink: `${this.baseUrl(req)}/files/${FAKE_BOT_USER_ID}/${entry.id}/${encodeURIComponent(upload.name)}`,
+          });
+          this.uploads.delete(entry.id);
+        }
+
+        if (channelId) {
+          this.store({
+            type: "message",
+            channel: channelId,
+            ts: this.nextTs(),
+            thread_ts: threadTs,
+            text: params.initial_comment ? String(params.initial_comment) : "",
+            user: FAKE_BOT_USER_ID,
+            bot_id: FAKE_BOT_ID,
+            files,
+          });
+        }
+        return { ok: true, files };
+      }
+
+      case "conversations.replies": {
+        const ts = params.ts ? String(params.ts) : "";
+        const parent = channel ? this.find(channel, ts) : undefined;
+        if (!channel || !parent) {
+          return { ok: false, error: "thread_not_found" };
+        }
+        const oldest = params.oldest ? Number(params.oldest) : undefined;
+        const inclusive = params.inclusive === true || params.inclusive === "true";
+        const messages = [parent, ...this.replies(channel, ts)].filter((m) => {
+          if (oldest === undefined) return true;
+          return inclusive ? Number(m.ts) >= oldest : Number(m.ts) > oldest;
+        });
+        return { ok: true, messages, has_more: false };
+      }
+
+      default:
+        return { ok: false, error: "unknown_method" };
+    }
+  }
+
+  private replies(channel: string, threadTs: string): FakeSlackMessage[] {
+    return (this.messages.get(channel) ?? []).filter(
+      (m) => m.thread_ts === threadTs && m.ts !== threadTs
+    );
+  }
+
+  private renderBlocks(blocks: unknown[]): string {
+    const lines: string[] = [];
+    for (const block of blocks as BlockLike[]) {
+      switch (block.type) {
+        case "header":
+          lines.push(`== ${block.text?.text ?? ""} ==`);
+          break;
+        case "section":
+          if (block.text?.text) lines.push(block.text.text);
+          for (const field of block.fields ?? []) {
+            lines.push(`  ${(field.text ?? "").replace("\n", ": ")}`);
+          }
+          break;
+        case "context":
+          lines.push(`  (${(block.elements ?? []).map((e) => e.text ?? "").join(" | ")})`);
+          break;
+        case "divider":
+          lines.push("  ────────");
+          break;
+        default:
+          lines.push(`  [${block.type} block]`);
+      }
+    }
+    return lines.join("\n");
+  }
+
+  /**
+   * メンションや日付などの Slack 記法を表示用の文字列に置換
+   */
+  private humanize(text: string): string {
+    return text
+      .replace(/<!date\^[^|>]*\|([^>]*)>/g, "$1")
+      .replace(/<!(channel|here|everyone)>/g, "@$1")
+      .replace(/<!subteam\^([^|>]+)(?:\|[^>]*)?>/g, "@$1")
+      .replace(/<@([^|>]+)(?:\|[^>]*)?>/g, "@$1");
+  }
+
+  private renderMessage(message: FakeSlackMessage, indent: string): string {
+    const body = this.humanize(
+      message.blocks && message.blocks.length > 0
+        ? this.renderBlocks(message.blocks)
+        : message.text
+    );
+    const author = message.bot_id ? "bot" : message.user;
+    const edited = message.edited ? " (edited)" : "";
+    const header = `${indent}[${message.ts}] ${author}${edited}`;
+    const lines = body ? body.split("\n").map((line) => `${indent}  ${line}`) : [];
+    for (const file of message.files ?? []) {
+      lines.push(`${indent}  📎 ${file.title} (${file.name}, ${file.size} bytes)`);
+    }
+    if (message.reactions && message.reactions.length > 0) {
+      lines.push(`${indent}  ${message.reactions.map((r) => `:${r.name}: ${r.count}`).join("  ")}`);
+    }
+    return [header, ...lines].join("\n");
+  }
+
+  private renderThread(parent: FakeSlackMessage): string {
+    const parts = [
+      `#${parent.channel}`,
+      this.renderMessage(parent, ""),
+      ...this.replies(parent.channel, parent.ts).map((m) => this.renderMessage(m, "    ")),
+    ];
+    return parts.join("\n") + "\n";
+  }
+
+  private renderAll(): string {
+    const threads: string[] = [];
+    for (const list of this.messages.values()) {
+      for (const message of list) {
+        if (!message.thread_ts) {
+          threads.push(this.renderThread(message));
+        }
+      }
+    }
+    return threads.length > 0 ? threads.join("\n") : "(no threads yet)\n";
+  }
+}
@@ -0,0 +1,251 @@
+import { randomUUID } from "crypto";
+import {
+  existsSync,
+  linkSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  utimesSync,
+  writeFileSync,
+} from "fs";
+import { dirname } from "path";
+import { localize } from "./locale.js";
+
+export interface FileLockOptions {
+  timeoutMs?: number; // ロック取得を諦めるまでの時間
+  staleMs?: number; // これより古いロックは保持プロセスが異常終了したとみなす
+  retryMs?: number;
+}
+
+const DEFAULT_LOCK_OPTIONS: Required<FileLockOptions> = {
+  timeoutMs: 10000,
+  staleMs: 5000,
+  retryMs: 20,
+};
+
+const MESSAGES = {
+  en: {
+    lockTimeout: (lockPath: string) => `Timed out waiting for lock: ${lockPath}`,
+  },
+  ja: {
+    lockTimeout: (lockPath: string) => `ロックの取得がタイムアウトしました: ${lockPath}`,
+  },
+};
+
+const sleepBuffer = new Int32Array(new SharedArrayBuffer(4));
+
+function sleepSync(ms: number): void {
+  Atomics.wait(sleepBuffer, 0, 0, ms);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function ensureDir(path: string): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM は別ユーザーのプロセスが生存している
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * ロックファイルの内容（"<pid>\n<所有者のトークン>"）を読む（存在しない場合は undefined）
+ */
+function readLock(lockPath: string): string | undefined {
+  try {
+    return readFileSync(lockPath, "utf-8");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * ロックファイルの内容が expected の場合のみ削除
+ * 一意な名前に rename してから内容を確かめ、確認の間に他のプロセスが取り直したロックだった場合は元に戻す
+ */
+function removeLockIf(lockPath: string, expected: string): void {
+  const tombstone = `${lockPath}.${randomUUID()}.stale`;
+  try {
+    renameSync(lockPath, tombstone);
+  } catch {
+    // 他のプロセスが先に解放・削除した
+    return;
+  }
+
+  try {
+    if (readLock(tombstone) !== expected) {
+      try {
+        linkSync(tombstone, lockPath);
+      } catch {
+        // 戻す前に別のプロセスが新しいロックを取得した
+      }
+    }
+  } finally {
+    try {
+      unlinkSync(tombstone);
+    } catch {
+      // 既に削除されている
+    }
+  }
+}
+
+/**
+ * 保持プロセスが存在しない、または staleMs より古いロックを削除
+ */
+function removeStaleLock(lockPath: string, staleMs: number): void {
+  const content = readLock(lockPath);
+  if (content === undefined) {
+    return;
+  }
+  let ageMs: number;
+  try {
+    ageMs = Date.now() - statSync(lockPath).mtimeMs;
+  } catch {
+    return;
+  }
+  const pid = Number(content.split("\n")[0]);
+  if (ageMs <= staleMs && (!pid || isProcessAlive(pid))) {
+    return;
+  }
+  removeLockIf(lockPath, content);
+}
+
+/**
+ * ロックの取得を試みる（取得できた場合はロックファイルの内容を返す）
+ */
+function tryAcquire(lockPath: string, staleMs: number): string | undefined {
+  const content = `${process.pid}\n${randomUUID()}`;
+  try {
+    writeFileSync(lockPath, content, { flag: "wx" });
+    return content;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+      throw error;
+    }
+    removeStaleLock(lockPath, staleMs);
+    return undefined;
+  }
+}
+
+/**
+ * 保持中のロックの更新時刻を進め、stale とみなされないようにする
+ */
+function refreshLock(lockPath: string, content: string): void {
+  if (readLock(lockPath) === content) {
+    try {
+      const now = new Date();
+      utimesSync(lockPath, now, now);
+    } catch {
+      // 確認の直後に削除された
+    }
+  }
+}
+
+/**
+ * 自分が保持しているロックのみ解放する（stale として削除され、他のプロセスが取り直したロックは残す）
+ */
+function release(lockPath: string, content: string): void {
+  if (readLock(lockPath) === content) {
+    removeLockIf(lockPath, content);
+  }
+}
+
+function lockTimeoutError(lockPath: string): Error {
+  return new Error(localize(MESSAGES).lockTimeout(lockPath));
+}
+
+/**
+ * ロックファイル（O_EXCL で作成）による排他制御の下で同期処理を実行
+ */
+export function withFileLockSync<T>(
+  lockPath: string,
+  fn: () => T,
+  options: FileLockOptions = {}
+): T {
+  const { timeoutMs, staleMs, retryMs } = { ...DEFAULT_LOCK_OPTIONS, ...options };
+  ensureDir(lockPath);
+
+  const deadline = Date.now() + timeoutMs;
+  let content: string | undefined;
+  while ((content = tryAcquire(lockPath, staleMs)) === undefined) {
+    if (Date.now() > deadline) {
+      throw lockTimeoutError(lockPath);
+    }
+    sleepSync(retryMs);
+  }
+
+  try {
+    return fn();
+  } finally {
+    release(lockPath, content);
+  }
+}
+
+/**
+ * ロックファイルによる排他制御の下で非同期処理を実行
+ * （Slack への送信など、ロックを保持したまま I/O を待つ場合に使用）
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  fn: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const { timeoutMs, staleMs, retryMs } = { ...DEFAULT_LOCK_OPTIONS, ...options };
+  ensureDir(lockPath);
+
+  const deadline = Date.now() + timeoutMs;
+  let content: string | undefined;
+  while ((content = tryAcquire(lockPath, staleMs)) === undefined) {
+    if (Date.now() > deadline) {
+      throw lockTimeoutError(lockPath);
+    }
+    await sleep(retryMs);
+  }
+
+  // I/O を待つ間に staleMs を過ぎても他のプロセスに奪われないよう、保持中は定期的に更新時刻を進める
+  const lockContent = content;
+  const heartbeat = setInterval(
+    () => refreshLock(lockPath, lockContent),
+    Math.max(staleMs / 3, retryMs)
+  );
+  heartbeat.unref();
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+    release(lockPath, content);
+  }
+}
+
+/**
+ * 一時ファイルに書き込んでから rename することで、読み込み側が書きかけのファイルを見ないようにする
+ */
+export function writeFileAtomicSync(path: string, data: string): void {
+  ensureDir(path);
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  try {
+    writeFileSync(tmpPath, data, "utf-8");
+    renameSync(tmpPath, path);
+  } catch (error) {
+    try {
+      unlinkSync(tmpPath);
+    } catch {
+      // 一時ファイルが作成されていない
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,215 @@
+import { execFileSync } from "child_process";
+import { localize } from "./locale.js";
+
+// git コマンドのタイムアウト（Hooks を長時間止めないため）
+const GIT_TIMEOUT_MS = 5000;
+
+// 完了メッセージに列挙するファイル・コミットの最大数
+const GIT_SUMMARY_MAX_ITEMS = 10;
+
+const MESSAGES = {
+  en: {
+    changes: "*Changes:*",
+    commits: "*Commits:*",
+    filesChanged: (files: number, insertions: number, deletions: number) =>
+      `${files} ${files === 1 ? "file" : "files"} changed, +${insertions} / -${deletions}`,
+    noChanges: "No changes",
+    commitCount: (count: number) => `${count} ${count === 1 ? "commit" : "commits"}`,
+    binary: "(binary)",
+    more: (count: number) => `…and ${count} more`,
+    untracked: (count: number) => `${count} untracked`,
+    dirty: "uncommitted changes",
+    notes: (notes: string[]) => ` (${notes.join(", ")})`,
+  },
+  ja: {
+    changes: "*変更内容:*",
+    commits: "*コミット:*",
+    filesChanged: (files: number, insertions: number, deletions: number) =>
+      `${files} ファイルを変更、+${insertions} / -${deletions}`,
+    noChanges: "変更なし",
+    commitCount: (count: number) => `コミット ${count} 件`,
+    binary: "(バイナリ)",
+    more: (count: number) => `…他 ${count} 件`,
+    untracked: (count: number) => `未追跡 ${count} 件`,
+    dirty: "未コミットの変更あり",
+    notes: (notes: string[]) => `（${notes.join("、")}）`,
+  },
+};
+
+export interface GitFileChange {
+  path: string;
+  insertions: number;
+  deletions: number;
+  binary?: boolean;
+}
+
+export interface GitCommit {
+  sha: string; // 短縮形
+  subject: string;
+}
+
+/**
+ * ジョブ開始時から現在までのリポジトリの変更
+ * - files / insertions / deletions: 開始時のコミットと作業ツリーの差分（未コミットの変更を含む）
+ * - commits: 開始後に作成されたコミット
+ */
+export interface GitChangeSummary {
+  baseCommit?: string; // 比較の起点（開始時の HEAD が不明な場合は undefined で、未コミットの変更のみ）
+  headCommit: string;
+  commits: GitCommit[];
+  files: GitFileChange[];
+  insertions: number;
+  deletions: number;
+  untrackedFiles: number;
+  dirty: boolean;
+}
+
+/**
+ * Webhook イベント / CLI の JSON 出力での表現
+ */
+export interface GitChangeSummaryJson {
+  base_commit?: string;
+  head_commit: string;
+  commits: GitCommit[];
+  files: GitFileChange[];
+  insertions: number;
+  deletions: number;
+  untracked_files: number;
+  dirty: boolean;
+}
+
+/**
+ * git コマンドを実行して標準出力を返す（失敗した場合は undefined）
+ */
+export function runGit(cwd: string, args: string[]): string | undefined {
+  try {
+    return execFileSync("git", args, {
+      cwd,
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+      timeout: GIT_TIMEOUT_MS,
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+function splitLines(output: string): string[] {
+  return output.split("\n").filter((line) => line.length > 0);
+}
+
+/**
+ * 現在の HEAD のコミット（git リポジトリでない場合・コミットがない場合は undefined）
+ */
+export function getGitHead(cwd: string): string | undefined {
+  return runGit(cwd, ["rev-parse", "HEAD"])?.trim() || undefined;
+}
+
+/**
+ * 開始時のコミットからの変更を集計（git リポジトリでない場合は undefined）
+ * 開始時のコミットが見つからない場合（履歴の書き換えなど）は HEAD からの未コミットの変更のみ
+ */
+export function getGitChangeSummary(cwd: string, startCommit?: string): GitChangeSummary | undefined {
+  const headCommit = getGitHead(cwd);
+  if (!headCommit) {
+    return undefined;
+  }
+
+  const baseCommit =
+    startCommit && runGit(cwd, ["cat-file", "-e", `${startCommit}^{commit}`]) !== undefined
+      ? startCommit
+      : undefined;
+
+  const commits =
+    baseCommit && baseCommit !== headCommit
+      ? splitLines(runGit(cwd, ["log", "--format=%h%x09%s", `${baseCommit}..HEAD`]) ?? "").map(
+          (line) => {
+            const [sha, ...subject] = line.split("\t");
+            return { sha, subject: subject.join("\t") };
+          }
+        )
+      : [];
+
+  const files = splitLines(runGit(cwd, ["diff", "--numstat", baseCommit ?? "HEAD"]) ?? "").map(
+    (line): GitFileChange => {
+      const [added, removed, ...path] = line.split("\t");
+      // バイナリファイルは行数の代わりに "-" が出力される
+      return added === "-"
+        ? { path: path.join("\t"), insertions: 0, deletions: 0, binary: true }
+        : { path: path.join("\t"), insertions: Number(added), deletions: Number(removed) };
+    }
+  );
+
+  const status = splitLines(runGit(cwd, ["status", "--porcelain"]) ?? "");
+
+  return {
+    baseCommit,
+    headCommit,
+    commits,
+    files,
+    insertions: files.reduce((sum, file) => sum + file.insertions, 0),
+    deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+    untrackedFiles: status.filter((line) => line.startsWith("??")).length,
+    dirty: status.length > 0,
+  };
+}
+
+function withMore(lines: string[], total: number): string[] {
+  return total > lines.length ? [...lines, localize(MESSAGES).more(total - lines.length)] : lines;
+}
+
+/**
+ * 完了メッセージに載せる変更の要約（Slack の mrkdwn）
+ */
+export function formatGitChangeSummary(summary: GitChangeSummary): string {
+  const messages = localize(MESSAGES);
+  const notes = [
+    summary.commits.length > 0 ? messages.commitCount(summary.commits.length) : undefined,
+    summary.untrackedFiles > 0 ? messages.untracked(summary.untrackedFiles) : undefined,
+    summary.dirty ? messages.dirty : undefined,
+  ].filter((note): note is string => !!note);
+
+  const headline =
+    summary.files.length > 0
+      ? messages.filesChanged(summary.files.length, summary.insertions, summary.deletions)
+      : messages.noChanges;
+  const lines = [`${messages.changes} ${headline}${notes.length > 0 ? messages.notes(notes) : ""}`];
+
+  lines.push(
+    ...withMore(
+      summary.files.slice(0, GIT_SUMMARY_MAX_ITEMS).map((file) =>
+        file.binary
+          ? `• \`${file.path}\` ${messages.binary}`
+          : `• \`${file.path}\` +${file.insertions} -${file.deletions}`
+      ),
+      summary.files.length
+    )
+  );
+
+  if (summary.commits.length > 0) {
+    lines.push(messages.commits);
+    lines.push(
+      ...withMore(
+        summary.commits
+          .slice(0, GIT_SUMMARY_MAX_ITEMS)
+          .map((commit) => `• \`${commit.sha}\` ${commit.subject}`),
+        summary.commits.length
+      )
+    );
+  }
+
+  return lines.join("\n");
+}
+
+export function toGitChangeSummaryJson(summary: GitChangeSummary): GitChangeSummaryJson {
+  return {
+    base_commit: summary.baseCommit,
+    head_commit: summary.headCommit,
+    commits: summary.commits,
+    files: summary.files,
+    insertions: summary.insertions,
+    deletions: summary.deletions,
+    untracked_files: summary.untrackedFiles,
+    dirty: summary.dirty,
+  };
+}
@@ -0,0 +1,51 @@
+import { MessageLevel, truncate } from "./message-blocks.js";
+
+// ジョブごとに保持するイベントの最大件数（超えた分は古いものから破棄）
+export const JOB_EVENT_LIMIT = 200;
+
+// イベントに記録するメッセージの最大文字数
+export const JOB_EVENT_MESSAGE_MAX_LENGTH = 500;
+
+export type JobEventType =
+  | "start"
+  | "update"
+  | "waiting"
+  | "question"
+  | "answer"
+  | "complete"
+  | "fail"
+  | "attachment";
+
+/**
+ * イベントの発生元（Claude Code の Hooks から呼ばれた場合のイベント名・ツール名）
+ */
+export interface JobEventSource {
+  hookEvent?: string;
+  toolName?: string;
+}
+
+/**
+ * ジョブのイベント履歴の1件（ThreadState に追記のみで保存される）
+ */
+export interface JobEvent extends JobEventSource {
+  type: JobEventType;
+  at: string; // ISO 8601
+  message?: string; // 進捗メッセージ / 待機理由 / 質問 / 回答 / 完了サマリ / エラー概要 / 添付ファイル名
+  level?: MessageLevel;
+  ts?: string; // 投稿（または上書き）した Slack メッセージの ts
+  edited?: boolean; // 既存のメッセージを上書きした（upsert）
+  user?: string; // 回答したユーザー（answer）
+  nextSuggestions?: string[]; // 次の候補（complete）
+  logsHint?: string; // ログのヒント（fail）
+}
+
+/**
+ * イベント履歴に追記（メッセージは切り詰め、上限を超えた古いイベントは破棄）
+ */
+export function appendJobEvent(history: JobEvent[] | undefined, event: JobEvent): JobEvent[] {
+  const entry: JobEvent =
+    event.message !== undefined
+      ? { ...event, message: truncate(event.message, JOB_EVENT_MESSAGE_MAX_LENGTH) }
+      : event;
+  return [...(history ?? []), entry].slice(-JOB_EVENT_LIMIT);
+}
@@ -0,0 +1,355 @@
+import { formatDuration } from "./duration.js";
+import { JobEvent, JobEventType } from "./job-events.js";
+import {
+  formatJobDurations,
+  getJobDurations,
+  JobDurationsJson,
+  toDurationsJson,
+} from "./job-timing.js";
+import { MessageLevel } from "./message-blocks.js";
+import { DEFAULT_LEVEL_EMOJI as LEVEL_EMOJI } from "./message-templates.js";
+import { JobStatus, ThreadState } from "./thread-store.js";
+
+export type ReportFormat = "markdown" | "html" | "json";
+
+export const REPORT_FORMATS: ReportFormat[] = ["markdown", "html", "json"];
+
+export function isReportFormat(value: string): value is ReportFormat {
+  return (REPORT_FORMATS as string[]).includes(value);
+}
+
+const STATUS_EMOJI: Record<JobStatus, string> = {
+  started: "🚀",
+  in_progress: "🚀",
+  completed: "✅",
+  failed: "❌",
+};
+
+const EVENT_EMOJI: Record<JobEventType, string> = {
+  start: "🚀",
+  update: LEVEL_EMOJI.info,
+  waiting: "⏸️",
+  question: "❓",
+  answer: "💬",
+  complete: "✅",
+  fail: "❌",
+  attachment: "📎",
+};
+
+// 待機を終える（処理が再開した）とみなすイベント
+const RESUME_EVENTS: JobEventType[] = ["update", "answer", "complete", "fail"];
+
+export interface WaitingPeriod {
+  start: string;
+  end?: string; // 未終了の場合は undefined
+  duration_ms: number;
+  reason?: string;
+}
+
+export interface TimelineEntry {
+  at: string;
+  type: JobEventType;
+  message?: string;
+  level?: MessageLevel;
+  ts?: string;
+  edited?: boolean;
+  hook_event?: string;
+  tool_name?: string;
+  user?: string;
+}
+
+/**
+ * ジョブのレポート（JSON 出力の形式。Markdown / HTML もこれから描画する）
+ */
+export interface JobReport {
+  job_id: string;
+  title: string;
+  status: JobStatus;
+  channel: string;
+  thread_ts?: string;
+  permalink?: string;
+  meta?: Record<string, unknown>;
+  created_at: string;
+  in_progress_at?: string;
+  finished_at?: string;
+  durations: JobDurationsJson;
+  elapsed: string; // "12m 30s, 2m waiting" のような表記
+  summary?: string;
+  error_summary?: string;
+  logs_hint?: string;
+  next_suggestions?: string[];
+  waiting_periods: WaitingPeriod[];
+  timeline: TimelineEntry[];
+}
+
+/**
+ * イベント履歴から待機期間を復元
+ * waiting / question から次の進捗・回答・完了・失敗までを1つの待機とする
+ */
+function collectWaitingPeriods(events: JobEvent[], end: number): WaitingPeriod[] {
+  const periods: WaitingPeriod[] = [];
+  let open: { start: string; reason?: string } | undefined;
+
+  for (const event of events) {
+    if (event.type === "waiting" || event.type === "question") {
+      open ??= { start: event.at, reason: event.message };
+    } else if (open && RESUME_EVENTS.includes(event.type)) {
+      periods.push({
+        ...open,
+        end: event.at,
+        duration_ms: Math.max(0, Date.parse(event.at) - Date.parse(open.start)),
+      });
+      open = undefined;
+    }
+  }
+
+  if (open) {
+    periods.push({ ...open, duration_ms: Math.max(0, end - Date.parse(open.start)) });
+  }
+  return periods;
+}
+
+function findLastEvent(events: JobEvent[], type: JobEventType): JobEvent | undefined {
+  return [...events].reverse().find((event) => event.type === type);
+}
+
+/**
+ * ThreadStore に記録された状態からレポートを組み立てる（Slack は参照しない）
+ */
+export function buildJobReport(state: ThreadState, now: number = Date.now()): JobReport {
+  const events = state.events ?? [];
+  const end = state.finishedAt ? Date.parse(state.finishedAt) : now;
+  const complete = findLastEvent(events, "complete");
+  const fail = findLastEvent(events, "fail");
+  const durations = getJobDurations(state, now);
+
+  return {
+    job_id: state.jobId,
+    title: state.title,
+    status: state.status,
+    channel: state.channel,
+    thread_ts: state.threadTs || undefined,
+    permalink: state.permalink,
+    meta: state.meta,
+    created_at: state.createdAt,
+    in_progress_at: state.inProgressAt,
+    finished_at: state.finishedAt,
+    durations: toDurationsJson(durations),
+    elapsed: formatJobDurations(durations, "en"),
+    summary: state.status === "completed" ? complete?.message : undefined,
+    error_summary: state.status === "failed" ? fail?.message : undefined,
+    logs_hint: state.status === "failed" ? fail?.logsHint : undefined,
+    next_suggestions: state.status === "completed" ? complete?.nextSuggestions : undefined,
+    waiting_periods: collectWaitingPeriods(events, end),
+    timeline: events.map((event) => ({
+      at: event.at,
+      type: event.type,
+      message: event.message,
+      level: event.level,
+      ts: event.ts,
+      edited: event.edited,
+      hook_event: event.hookEvent,
+      tool_name: event.toolName,
+      user: event.user,
+    })),
+  };
+}
+
+function eventEmoji(entry: TimelineEntry): string {
+  return entry.type === "update" && entry.level ? LEVEL_EMOJI[entry.level] : EVENT_EMOJI[entry.type];
+}
+
+/**
+ * タイムラインの補足（レベル・上書き・Hooks のイベント名など）
+ */
+function eventNotes(entry: TimelineEntry): string[] {
+  return [
+    entry.level && entry.level !== "info" ? entry.level : undefined,
+    entry.edited ? "edited" : undefined,
+    entry.hook_event,
+    entry.tool_name,
+    entry.user ? `by ${entry.user}` : undefined,
+  ].filter((note): note is string => !!note);
+}
+
+function renderMarkdown(report: JobReport): string {
+  // 複数行のメッセージはリスト項目の続きとして字下げする
+  const indent = (text: string) => text.replace(/\n/g, "\n  ");
+  const lines: string[] = [
+    `# ${STATUS_EMOJI[report.status]} ${report.title}`,
+    "",
+    `- **Status:** ${report.status}`,
+    `- **Job ID:** \`${report.job_id}\``,
+    `- **Started:** ${report.created_at}`,
+  ];
+  if (report.finished_at) {
+    lines.push(`- **Finished:** ${report.finished_at}`);
+  }
+  lines.push(`- **Duration:** ${report.elapsed}`);
+  if (report.permalink) {
+    lines.push(`- **Slack:** ${report.permalink}`);
+  }
+
+  if (report.meta && Object.keys(report.meta).length > 0) {
+    lines.push("", "## Meta", "");
+    for (const [key, value] of Object.entries(report.meta)) {
+      lines.push(`- **${key}:** ${value}`);
+    }
+  }
+
+  if (report.summary) {
+    lines.push("", "## Summary", "", report.summary);
+  }
+  if (report.error_summary) {
+    lines.push("", "## Error", "", report.error_summary);
+    if (report.logs_hint) {
+      lines.push("", `**Logs:** ${report.logs_hint}`);
+    }
+  }
+  if (report.next_suggestions && report.next_suggestions.length > 0) {
+    lines.push("", "## Next suggestions", "");
+    lines.push(...report.next_suggestions.map((s) => `- ${s}`));
+  }
+
+  if (report.waiting_periods.length > 0) {
+    lines.push("", "## Waiting periods", "");
+    for (const period of report.waiting_periods) {
+      const range = `${period.start} → ${period.end ?? "(still waiting)"}`;
+      const reason = period.reason ? `: ${indent(period.reason)}` : "";
+      lines.push(`- ${range} (${formatDuration(period.duration_ms)})${reason}`);
+    }
+  }
+
+  lines.push("", "## Timeline", "");
+  if (report.timeline.length === 0) {
+    lines.push("_No events recorded._");
+  }
+  for (const entry of report.timeline) {
+    const notes = eventNotes(entry);
+    const notesText = notes.length > 0 ? ` _(${notes.join(", ")})_` : "";
+    const messageText = entry.message ? ` ${indent(entry.message)}` : "";
+    lines.push(`- \`${entry.at}\` ${eventEmoji(entry)} **${entry.type}**${notesText}${messageText}`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// 改行を保ったままエスケープ
+function htmlText(text: string): string {
+  return escapeHtml(text).replace(/\n/g, "<br>");
+}
+
+function renderHtml(report: JobReport): string {
+  const title = `${STATUS_EMOJI[report.status]} ${report.title}`;
+  const rows: Array<[string, string]> = [
+    ["Status", escapeHtml(report.status)],
+    ["Job ID", `<code>${escapeHtml(report.job_id)}</code>`],
+    ["Started", escapeHtml(report.created_at)],
+  ];
+  if (report.finished_at) {
+    rows.push(["Finished", escapeHtml(report.finished_at)]);
+  }
+  rows.push(["Duration", escapeHtml(report.elapsed)]);
+  if (report.permalink) {
+    const href = escapeHtml(report.permalink);
+    rows.push(["Slack", `<a href="${href}">${href}</a>`]);
+  }
+  for (const [key, value] of Object.entries(report.meta ?? {})) {
+    rows.push([escapeHtml(key), htmlText(String(value))]);
+  }
+
+  const body: string[] = [
+    `<h1>${escapeHtml(title)}</h1>`,
+    "<table>",
+    ...rows.map(([key, value]) => `<tr><th>${key}</th><td>${value}</td></tr>`),
+    "</table>",
+  ];
+
+  if (report.summary) {
+    body.push("<h2>Summary</h2>", `<p>${htmlText(report.summary)}</p>`);
+  }
+  if (report.error_summary) {
+    body.push("<h2>Error</h2>", `<p>${htmlText(report.error_summary)}</p>`);
+    if (report.logs_hint) {
+      body.push(`<p><strong>Logs:</strong> ${htmlText(report.logs_hint)}</p>`);
+    }
+  }
+  if (report.next_suggestions && report.next_suggestions.length > 0) {
+    body.push(
+      "<h2>Next suggestions</h2>",
+      "<ul>",
+      ...report.next_suggestions.map((s) => `<li>${htmlText(s)}</li>`),
+      "</ul>"
+    );
+  }
+
+  if (report.waiting_periods.length > 0) {
+    body.push("<h2>Waiting periods</h2>", "<ul>");
+    for (const period of report.waiting_periods) {
+      const range = `${period.start} → ${period.end ?? "(still waiting)"}`;
+      const reason = period.reason ? `: ${htmlText(period.reason)}` : "";
+      body.push(
+        `<li>${escapeHtml(range)} (${escapeHtml(formatDuration(period.duration_ms))})${reason}</li>`
+      );
+    }
+    body.push("</ul>");
+  }
+
+  body.push("<h2>Timeline</h2>");
+  if (report.timeline.length === 0) {
+    body.push("<p><em>No events recorded.</em></p>");
+  } else {
+    body.push("<ul>");
+    for (const entry of report.timeline) {
+      const notes = eventNotes(entry);
+      const notesText = notes.length > 0 ? ` <em>(${escapeHtml(notes.join(", "))})</em>` : "";
+      const messageText = entry.message ? ` ${htmlText(entry.message)}` : "";
+      body.push(
+        `<li><code>${escapeHtml(entry.at)}</code> ${eventEmoji(entry)} <strong>${entry.type}</strong>${notesText}${messageText}</li>`
+      );
+    }
+    body.push("</ul>");
+  }
+
+  return [
+    "<!DOCTYPE html>",
+    "<html>",
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(report.title)}</title>`,
+    "<style>body{font-family:sans-serif;max-width:960px;margin:2em auto;line-height:1.5}th{text-align:left;padding-right:1em}</style>",
+    "</head>",
+    "<body>",
+    ...body,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * ジョブのレポートを指定の形式で描画
+ */
+export function renderJobReport(
+  state: ThreadState,
+  format: ReportFormat,
+  now: number = Date.now()
+): string {
+  const report = buildJobReport(state, now);
+  switch (format) {
+    case "json":
+      return JSON.stringify(report, null, 2) + "\n";
+    case "markdown":
+      return renderMarkdown(report);
+    case "html":
+      return renderHtml(report);
+  }
+}
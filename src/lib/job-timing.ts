@@ -0,0 +1,67 @@
+import { formatDuration } from "./duration.js";
+import { getLocale, Locale } from "./locale.js";
+import { ThreadState } from "./thread-store.js";
+
+const MESSAGES = {
+  en: {
+    withWaiting: (total: string, waiting: string) => `${total}, ${waiting} waiting`,
+  },
+  ja: {
+    withWaiting: (total: string, waiting: string) => `${total}、うち待機 ${waiting}`,
+  },
+};
+
+/**
+ * ジョブの所要時間
+ * - totalMs: 開始から終了（未終了なら現在）までの時間
+ * - waitingMs: そのうち人の応答を待っていた時間
+ * - activeMs: 待機を除いた時間
+ */
+export interface JobDurations {
+  totalMs: number;
+  activeMs: number;
+  waitingMs: number;
+}
+
+/**
+ * CLI / MCP ツール / Webhook イベントの JSON 出力での所要時間の表現
+ */
+export interface JobDurationsJson {
+  total_ms: number;
+  active_ms: number;
+  waiting_ms: number;
+}
+
+/**
+ * スレッド状態からジョブの所要時間を計算
+ * 待機中のジョブは、現在までの待機時間を含める
+ */
+export function getJobDurations(state: ThreadState, now: number = Date.now()): JobDurations {
+  const end = state.finishedAt ? Date.parse(state.finishedAt) : now;
+  const totalMs = Math.max(0, end - Date.parse(state.createdAt));
+  const openWaitingMs = state.waitingSince
+    ? Math.max(0, end - Date.parse(state.waitingSince))
+    : 0;
+  const waitingMs = Math.min(totalMs, (state.waitingMs ?? 0) + openWaitingMs);
+
+  return { totalMs, activeMs: totalMs - waitingMs, waitingMs };
+}
+
+/**
+ * "12m 30s" / "12m 30s, 2m waiting" のような表記（1秒未満の待機は省略）
+ * locale を省略した場合は現在の言語（英語固定の CLI の一覧・レポートでは "en" を指定）
+ */
+export function formatJobDurations(durations: JobDurations, locale: Locale = getLocale()): string {
+  const totalText = formatDuration(durations.totalMs);
+  return durations.waitingMs >= 1000
+    ? MESSAGES[locale].withWaiting(totalText, formatDuration(durations.waitingMs))
+    : totalText;
+}
+
+export function toDurationsJson(durations: JobDurations): JobDurationsJson {
+  return {
+    total_ms: durations.totalMs,
+    active_ms: durations.activeMs,
+    waiting_ms: durations.waitingMs,
+  };
+}
@@ -0,0 +1,103 @@
+import { existsSync, readFileSync } from "fs";
+import { withFileLockSync, writeFileAtomicSync } from "./file-lock.js";
+import type { ThreadState } from "./thread-store.js";
+import { matchesQuery, ThreadMutator, ThreadQuery, ThreadStorage } from "./thread-storage.js";
+
+/**
+ * すべてのジョブを 1 つの JSON 配列ファイルに保存するバックエンド
+ *
+ * Claude Code の Hooks のように複数プロセスが同時に同じファイルを更新しても
+ * 更新が失われないよう、変更はすべてファイルロック下での read-modify-write
+ * （最新の内容を読み直してから変更し、rename で置き換える）で行う。
+ */
+export class JsonFileThreadStorage implements ThreadStorage {
+  readonly type = "json" as const;
+  readonly path: string;
+  private threads: Map<string, ThreadState> = new Map();
+
+  constructor(path: string) {
+    this.path = path;
+    this.loadFromDisk();
+  }
+
+  private loadFromDisk(): void {
+    if (!existsSync(this.path)) {
+      return;
+    }
+
+    try {
+      const data = readFileSync(this.path, "utf-8");
+      const parsed = JSON.parse(data) as ThreadState[];
+      this.threads = new Map(parsed.map((state) => [state.jobId, state]));
+    } catch {
+      // If file is corrupted, keep the last known state
+    }
+  }
+
+  private saveToDisk(): void {
+    try {
+      const data = JSON.stringify(Array.from(this.threads.values()), null, 2);
+      writeFileAtomicSync(this.path, data);
+    } catch {
+      // Best effort persistence
+    }
+  }
+
+  /**
+   * ファイルロック下で最新の内容を読み込み、変更があれば書き戻す
+   */
+  private transact<T>(fn: () => { result: T; changed: boolean }): T {
+    return withFileLockSync(`${this.path}.lock`, () => {
+      this.loadFromDisk();
+      const { result, changed } = fn();
+      if (changed) {
+        this.saveToDisk();
+      }
+      return result;
+    });
+  }
+
+  get(jobId: string): ThreadState | undefined {
+    return this.threads.get(jobId);
+  }
+
+  list(query?: ThreadQuery): ThreadState[] {
+    return Array.from(this.threads.values()).filter((state) => matchesQuery(state, query));
+  }
+
+  update(jobId: string, mutate: ThreadMutator): ThreadState | undefined {
+    return this.transact(() => {
+      const current = this.threads.get(jobId);
+      const next = mutate(current ? { ...current } : undefined);
+      if (!next) {
+        return { result: current, changed: false };
+      }
+
+      this.threads.set(jobId, next);
+      return { result: next, changed: true };
+    });
+  }
+
+  delete(jobId: string): boolean {
+    return this.transact(() => {
+      const existed = this.threads.delete(jobId);
+      return { result: existed, changed: existed };
+    });
+  }
+
+  deleteMatching(query: ThreadQuery): ThreadState[] {
+    return this.transact(() => {
+      const removed = this.list(query);
+      for (const state of removed) {
+        this.threads.delete(state.jobId);
+      }
+      return { result: removed, changed: removed.length > 0 };
+    });
+  }
+
+  refresh(): void {
+    this.loadFromDisk();
+  }
+
+  close(): void {}
+}
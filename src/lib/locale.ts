@@ -0,0 +1,31 @@
+/**
+ * 自動生成する文言（Slack への投稿・MCP ツールの説明・エラーメッセージ）の言語
+ */
+export type Locale = "en" | "ja";
+
+export const LOCALES: Locale[] = ["en", "ja"];
+
+export const DEFAULT_LOCALE: Locale = "ja";
+
+export function isLocale(value: string): value is Locale {
+  return (LOCALES as string[]).includes(value);
+}
+
+// プロセス全体で1つ（CLI・MCP サーバーの起動時に設定から決める）
+let currentLocale: Locale = DEFAULT_LOCALE;
+
+export function setLocale(locale: Locale): void {
+  currentLocale = locale;
+}
+
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+/**
+ * 現在の言語の文言を選ぶ
+ * 設定より前に評価されないよう、モジュールの読み込み時ではなく使う時点で呼び出す
+ */
+export function localize<T>(texts: Record<Locale, T>): T {
+  return texts[currentLocale];
+}
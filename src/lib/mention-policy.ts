@@ -0,0 +1,394 @@
+import { readFileSync } from "fs";
+import { localize } from "./locale.js";
+import { MessageLevel } from "./message-blocks.js";
+
+/**
+ * メンションを判定する投稿の種類
+ */
+export type MentionEventType = "start" | "update" | "waiting" | "question" | "complete" | "fail";
+
+export type Weekday = "sun" | "mon" | "tue" | "wed" | "thu" | "fri" | "sat";
+
+/**
+ * "HH:MM" の時間帯（end が start より前の場合は日付をまたぐ。例: 22:00〜08:00）
+ */
+export interface TimeRange {
+  start: string;
+  end: string;
+}
+
+/**
+ * ユーザーごとの勤務時間（時間外はそのユーザーをメンションしない）
+ */
+export interface WorkingHours {
+  timezone?: string; // 未指定はポリシーの timezone
+  hours?: TimeRange; // 未指定は終日
+  days?: Weekday[]; // 未指定は毎日
+}
+
+/**
+ * 宣言的なメンションのルール（上から順に評価し、最初に一致したルールを使う）
+ * 条件を省略した項目はすべてに一致する
+ */
+export interface MentionRule {
+  events?: MentionEventType[];
+  levels?: MessageLevel[]; // update のみ
+  channels?: string[];
+  jobs?: string[]; // job_id（"deploy-*" のように * で前方・後方一致）
+  hookEvents?: string[]; // CLI のフックイベント名（"SessionEnd" など。MCP サーバーの投稿には一致しない）
+  mention: boolean;
+  users?: string[]; // メンション先のユーザー ID（未指定は SLACK_MENTION_USER_IDS）
+  groups?: string[]; // メンション先のユーザーグループ ID（未指定は SLACK_MENTION_GROUP_ID）
+  urgent?: boolean; // 静かな時間帯・勤務時間外でもメンションする
+}
+
+export interface MentionPolicy {
+  timezone?: string; // IANA タイムゾーン（未指定はシステムのタイムゾーン）
+  quietHours?: TimeRange; // この時間帯はメンションせずに投稿する
+  quietDays?: Weekday[]; // この曜日はメンションせずに投稿する（週末は ["sat", "sun"]）
+  allowChannelMention?: boolean; // false の場合は @channel / @here を使わない（デフォルト: true）
+  users?: Record<string, WorkingHours>; // ユーザー ID ごとの勤務時間
+  rules?: MentionRule[];
+}
+
+/**
+ * メンションを判定する投稿の情報
+ */
+export interface MentionContext {
+  event: MentionEventType;
+  requested: boolean; // 呼び出し時の指定（ルールに一致しない場合に使用）
+  channel: string;
+  jobId?: string;
+  level?: MessageLevel;
+  hookEvent?: string;
+  now?: Date;
+}
+
+/**
+ * ポリシーがない場合のメンション先（NotifierConfig の設定）
+ */
+export interface MentionTargets {
+  userIds: string[];
+  groupIds: string[];
+  useChannelMention: boolean; // 個別のメンション先がない場合に @channel を使うか
+}
+
+export type MentionSkipReason = "not_requested" | "quiet_hours" | "outside_working_hours" | "channel_mention_disabled";
+
+export interface MentionDecision {
+  userIds: string[];
+  groupIds: string[];
+  channel: boolean; // @channel
+  skipped?: MentionSkipReason; // メンションしない理由（メンションする場合は undefined）
+  rule?: number; // 一致したルールの番号（0 始まり）
+}
+
+export const MENTION_EVENT_TYPES: MentionEventType[] = ["start", "update", "waiting", "question", "complete", "fail"];
+const WEEKDAYS: Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const LEVELS: MessageLevel[] = ["info", "warn", "debug"];
+const POLICY_KEYS = ["timezone", "quietHours", "quietDays", "allowChannelMention", "users", "rules"];
+const RULE_KEYS = ["events", "levels", "channels", "jobs", "hookEvents", "mention", "users", "groups", "urgent"];
+
+// Slack の @channel / @here / @everyone
+const BROADCAST_MENTION_PATTERN = /<!(channel|here|everyone)(\|[^>]*)?>/g;
+
+const MESSAGES = {
+  en: {
+    notObject: (name: string) => `${name} must be an object`,
+    unknownKey: (name: string, key: string, keys: string[]) =>
+      `Unknown key in ${name}: ${key} (expected one of ${keys.join(", ")})`,
+    invalidList: (name: string, allowed?: string[]) =>
+      allowed
+        ? `${name} must be an array of ${allowed.join(", ")}`
+        : `${name} must be an array of strings`,
+    invalidBoolean: (name: string) => `${name} must be true or false`,
+    invalidTimeRange: (name: string) => `${name} must be { "start": "HH:MM", "end": "HH:MM" }`,
+    invalidTimezone: (name: string, value: string) => `Invalid time zone in ${name}: ${value}`,
+    unreadableFile: (path: string, reason: string) => `Cannot read mention policy file: ${path} (${reason})`,
+  },
+  ja: {
+    notObject: (name: string) => `${name} はオブジェクトで指定してください`,
+    unknownKey: (name: string, key: string, keys: string[]) =>
+      `${name} に不明なキーがあります: ${key}（${keys.join(", ")} のいずれか）`,
+    invalidList: (name: string, allowed?: string[]) =>
+      allowed
+        ? `${name} は ${allowed.join(", ")} の配列で指定してください`
+        : `${name} は文字列の配列で指定してください`,
+    invalidBoolean: (name: string) => `${name} は true または false で指定してください`,
+    invalidTimeRange: (name: string) => `${name} は { "start": "HH:MM", "end": "HH:MM" } の形式で指定してください`,
+    invalidTimezone: (name: string, value: string) => `${name} のタイムゾーンが不正です: ${value}`,
+    unreadableFile: (path: string, reason: string) =>
+      `メンションポリシーのファイルを読み込めません: ${path}（${reason}）`,
+  },
+};
+
+/**
+ * "HH:MM" を 0 時からの分に変換（不正な形式は undefined）
+ */
+function parseClock(value: string): number | undefined {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return undefined;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours <= 24 && minutes < 60 && hours * 60 + minutes <= 24 * 60 ? hours * 60 + minutes : undefined;
+}
+
+/**
+ * 指定したタイムゾーンでの曜日と 0 時からの分
+ */
+function localTime(now: Date, timezone?: string): { day: Weekday; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    day: part("weekday").toLowerCase().slice(0, 3) as Weekday,
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+function inTimeRange(minutes: number, range: TimeRange): boolean {
+  const start = parseClock(range.start) ?? 0;
+  const end = parseClock(range.end) ?? 0;
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+function matchesJob(jobId: string | undefined, patterns: string[]): boolean {
+  if (!jobId) {
+    return false;
+  }
+  return patterns.some((pattern) => {
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+    return new RegExp(`^${escaped}$`).test(jobId);
+  });
+}
+
+function matchesRule(rule: MentionRule, context: MentionContext): boolean {
+  return (
+    (!rule.events || rule.events.includes(context.event)) &&
+    (!rule.levels || (context.level !== undefined && rule.levels.includes(context.level))) &&
+    (!rule.channels || rule.channels.includes(context.channel)) &&
+    (!rule.jobs || matchesJob(context.jobId, rule.jobs)) &&
+    (!rule.hookEvents || (context.hookEvent !== undefined && rule.hookEvents.includes(context.hookEvent)))
+  );
+}
+
+/**
+ * 静かな時間帯（quietHours / quietDays）かどうか
+ */
+export function isQuietTime(policy: MentionPolicy, now: Date = new Date()): boolean {
+  const { day, minutes } = localTime(now, policy.timezone);
+  return (
+    (policy.quietDays?.includes(day) ?? false) ||
+    (policy.quietHours !== undefined && inTimeRange(minutes, policy.quietHours))
+  );
+}
+
+/**
+ * ユーザーの勤務時間内かどうか（勤務時間の指定がないユーザーは常に勤務時間内）
+ */
+export function isWithinWorkingHours(
+  policy: MentionPolicy,
+  userId: string,
+  now: Date = new Date()
+): boolean {
+  const schedule = policy.users?.[userId];
+  if (!schedule) {
+    return true;
+  }
+  const { day, minutes } = localTime(now, schedule.timezone ?? policy.timezone);
+  return (
+    (!schedule.days || schedule.days.includes(day)) &&
+    (!schedule.hours || inTimeRange(minutes, schedule.hours))
+  );
+}
+
+/**
+ * ポリシーに従ってメンション先を決める
+ * 1. 最初に一致したルールの mention（一致しなければ呼び出し時の指定）
+ * 2. 静かな時間帯は urgent のルール以外メンションしない
+ * 3. 勤務時間外のユーザーを除く（全員除かれた場合も @channel にはしない）
+ * 4. 個別のメンション先がなければ @channel（allowChannelMention: false の場合はメンションしない）
+ */
+export function decideMention(
+  policy: MentionPolicy | undefined,
+  targets: MentionTargets,
+  context: MentionContext
+): MentionDecision {
+  const now = context.now ?? new Date();
+  const ruleIndex = policy?.rules?.findIndex((rule) => matchesRule(rule, context)) ?? -1;
+  const rule = ruleIndex >= 0 ? policy?.rules?.[ruleIndex] : undefined;
+  const none = (skipped: MentionSkipReason): MentionDecision => ({
+    userIds: [],
+    groupIds: [],
+    channel: false,
+    skipped,
+    rule: rule ? ruleIndex : undefined,
+  });
+
+  if (!(rule ? rule.mention : context.requested)) {
+    return none("not_requested");
+  }
+
+  const urgent = rule?.urgent === true;
+  if (policy && !urgent && isQuietTime(policy, now)) {
+    return none("quiet_hours");
+  }
+
+  const configuredUsers = rule?.users ?? targets.userIds;
+  const userIds =
+    policy && !urgent
+      ? configuredUsers.filter((userId) => isWithinWorkingHours(policy, userId, now))
+      : configuredUsers;
+  const groupIds = rule?.groups ?? targets.groupIds;
+
+  if (userIds.length > 0 || groupIds.length > 0) {
+    return { userIds, groupIds, channel: false, rule: rule ? ruleIndex : undefined };
+  }
+  if (configuredUsers.length > 0) {
+    return none("outside_working_hours");
+  }
+  if (!targets.useChannelMention || policy?.allowChannelMention === false) {
+    return none("channel_mention_disabled");
+  }
+  return { userIds: [], groupIds: [], channel: true, rule: rule ? ruleIndex : undefined };
+}
+
+/**
+ * @channel / @here / @everyone を取り除く（allowChannelMention: false の場合の安全策）
+ */
+export function stripBroadcastMentions(text: string): string {
+  return text.replace(BROADCAST_MENTION_PATTERN, "").replace(/ {2,}/g, " ").trim();
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkKeys(name: string, value: Record<string, unknown>, keys: string[]): void {
+  for (const key of Object.keys(value)) {
+    if (!keys.includes(key)) {
+      throw new Error(localize(MESSAGES).unknownKey(name, key, keys));
+    }
+  }
+}
+
+function checkList(name: string, value: unknown, allowed?: string[]): void {
+  if (
+    value !== undefined &&
+    (!Array.isArray(value) ||
+      !value.every((item) => typeof item === "string" && (!allowed || allowed.includes(item))))
+  ) {
+    throw new Error(localize(MESSAGES).invalidList(name, allowed));
+  }
+}
+
+function checkBoolean(name: string, value: unknown, required = false): void {
+  if ((required || value !== undefined) && typeof value !== "boolean") {
+    throw new Error(localize(MESSAGES).invalidBoolean(name));
+  }
+}
+
+function checkTimeRange(name: string, value: unknown): void {
+  if (value === undefined) {
+    return;
+  }
+  if (
+    !isObject(value) ||
+    typeof value.start !== "string" ||
+    typeof value.end !== "string" ||
+    parseClock(value.start) === undefined ||
+    parseClock(value.end) === undefined
+  ) {
+    throw new Error(localize(MESSAGES).invalidTimeRange(name));
+  }
+}
+
+function checkTimezone(name: string, value: unknown): void {
+  if (value === undefined) {
+    return;
+  }
+  try {
+    if (typeof value !== "string") {
+      throw new RangeError();
+    }
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+  } catch {
+    throw new Error(localize(MESSAGES).invalidTimezone(name, String(value)));
+  }
+}
+
+/**
+ * メンションポリシーの指定を検証（不正な場合はエラー）
+ */
+export function parseMentionPolicy(value: unknown): MentionPolicy {
+  if (!isObject(value)) {
+    throw new Error(localize(MESSAGES).notObject("mentionPolicy"));
+  }
+  checkKeys("mentionPolicy", value, POLICY_KEYS);
+  checkTimezone("timezone", value.timezone);
+  checkTimeRange("quietHours", value.quietHours);
+  checkList("quietDays", value.quietDays, WEEKDAYS);
+  checkBoolean("allowChannelMention", value.allowChannelMention);
+
+  if (value.users !== undefined) {
+    if (!isObject(value.users)) {
+      throw new Error(localize(MESSAGES).notObject("users"));
+    }
+    for (const [userId, schedule] of Object.entries(value.users)) {
+      const name = `users.${userId}`;
+      if (!isObject(schedule)) {
+        throw new Error(localize(MESSAGES).notObject(name));
+      }
+      checkKeys(name, schedule, ["timezone", "hours", "days"]);
+      checkTimezone(`${name}.timezone`, schedule.timezone);
+      checkTimeRange(`${name}.hours`, schedule.hours);
+      checkList(`${name}.days`, schedule.days, WEEKDAYS);
+    }
+  }
+
+  if (value.rules !== undefined) {
+    if (!Array.isArray(value.rules)) {
+      throw new Error(localize(MESSAGES).invalidList("rules"));
+    }
+    value.rules.forEach((rule: unknown, i: number) => {
+      const name = `rules[${i}]`;
+      if (!isObject(rule)) {
+        throw new Error(localize(MESSAGES).notObject(name));
+      }
+      checkKeys(name, rule, RULE_KEYS);
+      checkList(`${name}.events`, rule.events, MENTION_EVENT_TYPES);
+      checkList(`${name}.levels`, rule.levels, LEVELS);
+      checkList(`${name}.channels`, rule.channels);
+      checkList(`${name}.jobs`, rule.jobs);
+      checkList(`${name}.hookEvents`, rule.hookEvents);
+      checkBoolean(`${name}.mention`, rule.mention, true);
+      checkList(`${name}.users`, rule.users);
+      checkList(`${name}.groups`, rule.groups);
+      checkBoolean(`${name}.urgent`, rule.urgent);
+    });
+  }
+
+  return value as MentionPolicy;
+}
+
+/**
+ * JSON のメンションポリシーのファイルを読み込む
+ */
+export function loadMentionPolicyFile(path: string): MentionPolicy {
+  let content: unknown;
+  try {
+    content = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      localize(MESSAGES).unreadableFile(path, error instanceof Error ? error.message : String(error))
+    );
+  }
+  return parseMentionPolicy(content);
+}
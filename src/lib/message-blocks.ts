@@ -0,0 +1,275 @@
+import type { KnownBlock } from "@slack/web-api";
+
+// Block Kit の文字数上限
+const HEADER_MAX_LENGTH = 150;
+const SECTION_MAX_LENGTH = 3000;
+const FIELD_MAX_LENGTH = 2000;
+const MAX_FIELDS = 10;
+export const PARENT_SUMMARY_MAX_LENGTH = 300; // 親メッセージに表示するサマリは短く切り詰める
+
+export type MessageLevel = "info" | "warn" | "debug";
+
+export function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? text.slice(0, maxLength - 1) + "…" : text;
+}
+
+/**
+ * 見出しのブロック（テンプレートで見出しを空にした場合は省略する。空の header は Slack が受け付けない）
+ */
+function header(text: string): KnownBlock[] {
+  if (!text.trim()) {
+    return [];
+  }
+  return [
+    {
+      type: "header",
+      text: { type: "plain_text", text: truncate(text, HEADER_MAX_LENGTH), emoji: true },
+    },
+  ];
+}
+
+function section(text: string): KnownBlock {
+  return {
+    type: "section",
+    text: { type: "mrkdwn", text: truncate(text, SECTION_MAX_LENGTH) },
+  };
+}
+
+function context(elements: string[]): KnownBlock {
+  return {
+    type: "context",
+    elements: elements.map((text) => ({ type: "mrkdwn" as const, text })),
+  };
+}
+
+function divider(): KnownBlock {
+  return { type: "divider" };
+}
+
+/**
+ * Slack の日付フォーマット構文（閲覧者のタイムゾーンで表示される）
+ */
+function formatSlackDate(date: Date): string {
+  const unix = Math.floor(date.getTime() / 1000);
+  return `<!date^${unix}^{date_short_pretty} {time_secs}|${date.toISOString()}>`;
+}
+
+function metaFields(meta: Record<string, unknown>): KnownBlock[] {
+  const entries = Object.entries(meta);
+  const blocks: KnownBlock[] = [];
+
+  // fields は1セクションにつき最大10個まで
+  for (let i = 0; i < entries.length; i += MAX_FIELDS) {
+    blocks.push({
+      type: "section",
+      fields: entries.slice(i, i + MAX_FIELDS).map(([k, v]) => ({
+        type: "mrkdwn" as const,
+        text: truncate(`*${k}*\n${v}`, FIELD_MAX_LENGTH),
+      })),
+    });
+  }
+
+  return blocks;
+}
+
+function footer(jobId?: string): KnownBlock {
+  const elements: string[] = [];
+  if (jobId) {
+    elements.push(`Job: \`${jobId}\``);
+  }
+  elements.push(formatSlackDate(new Date()));
+  return context(elements);
+}
+
+function withPrefix(text: string, prefix?: string): string {
+  return prefix ? `${prefix} ${text}` : text;
+}
+
+// 各メッセージの見出し・文言はテンプレートから描画済みのものを受け取る（message-templates.ts）
+
+export interface ParentBlocksInput {
+  heading: string;
+  meta?: Record<string, unknown>;
+  mentionText?: string;
+  prefix?: string;
+  jobId?: string;
+}
+
+export function renderParentBlocks(input: ParentBlocksInput): KnownBlock[] {
+  const blocks: KnownBlock[] = [...header(withPrefix(input.heading, input.prefix))];
+
+  if (input.meta && Object.keys(input.meta).length > 0) {
+    blocks.push(...metaFields(input.meta));
+  }
+
+  if (input.mentionText) {
+    blocks.push(section(input.mentionText));
+  }
+
+  blocks.push(footer(input.jobId));
+  return blocks;
+}
+
+export type ParentStatus = "in_progress" | "waiting" | "completed" | "failed";
+
+export interface ParentStatusBlocksInput {
+  heading: string;
+  meta?: Record<string, unknown>;
+  elapsedText: string; // "経過時間: 12m 30s" のような表記
+  summary?: string;
+  prefix?: string;
+  jobId?: string;
+}
+
+/**
+ * ジョブの現在の状態を反映した親メッセージ（chat.update での再描画用）
+ */
+export function renderParentStatusBlocks(input: ParentStatusBlocksInput): KnownBlock[] {
+  const blocks: KnownBlock[] = [
+    ...header(withPrefix(input.heading, input.prefix)),
+    context([input.elapsedText]),
+  ];
+
+  if (input.summary) {
+    blocks.push(section(truncate(input.summary, PARENT_SUMMARY_MAX_LENGTH)));
+  }
+
+  if (input.meta && Object.keys(input.meta).length > 0) {
+    blocks.push(...metaFields(input.meta));
+  }
+
+  blocks.push(footer(input.jobId));
+  return blocks;
+}
+
+export interface ReplyBlocksInput {
+  message: string; // レベルの絵文字を含む進捗メッセージ
+  progressText?: string;
+  mentionText?: string;
+}
+
+export function renderReplyBlocks(input: ReplyBlocksInput): KnownBlock[] {
+  const blocks: KnownBlock[] = [section(input.message)];
+
+  if (input.progressText) {
+    blocks.push(section(input.progressText));
+  }
+
+  if (input.mentionText) {
+    blocks.push(context([input.mentionText]));
+  }
+
+  return blocks;
+}
+
+export interface CompleteBlocksInput {
+  heading: string;
+  summary?: string;
+  gitChangesText?: string; // リポジトリの変更の要約
+  suggestionsText?: string; // 次の候補
+  mentionText?: string;
+  prefix?: string;
+  jobId?: string;
+}
+
+export function renderCompleteBlocks(input: CompleteBlocksInput): KnownBlock[] {
+  const blocks: KnownBlock[] = [...header(withPrefix(input.heading, input.prefix))];
+
+  if (input.summary) {
+    blocks.push(section(input.summary));
+  }
+
+  if (input.gitChangesText) {
+    blocks.push(section(input.gitChangesText));
+  }
+
+  if (input.suggestionsText) {
+    blocks.push(divider());
+    blocks.push(section(input.suggestionsText));
+  }
+
+  if (input.mentionText) {
+    blocks.push(section(input.mentionText));
+  }
+
+  blocks.push(footer(input.jobId));
+  return blocks;
+}
+
+export interface FailBlocksInput {
+  heading: string;
+  errorSummary: string;
+  logsText?: string;
+  mentionText?: string;
+  prefix?: string;
+  jobId?: string;
+}
+
+export function renderFailBlocks(input: FailBlocksInput): KnownBlock[] {
+  const blocks: KnownBlock[] = [
+    ...header(withPrefix(input.heading, input.prefix)),
+    section(input.errorSummary),
+  ];
+
+  if (input.logsText) {
+    blocks.push(section(input.logsText));
+  }
+
+  if (input.mentionText) {
+    blocks.push(section(input.mentionText));
+  }
+
+  blocks.push(footer(input.jobId));
+  return blocks;
+}
+
+export interface WaitingBlocksInput {
+  heading: string;
+  reason: string;
+  mentionText?: string;
+  prefix?: string;
+  jobId?: string;
+}
+
+export function renderWaitingBlocks(input: WaitingBlocksInput): KnownBlock[] {
+  const blocks: KnownBlock[] = [
+    ...header(withPrefix(input.heading, input.prefix)),
+    section(input.reason),
+  ];
+
+  if (input.mentionText) {
+    blocks.push(section(input.mentionText));
+  }
+
+  blocks.push(footer(input.jobId));
+  return blocks;
+}
+
+export interface QuestionBlocksInput {
+  heading: string;
+  question: string;
+  choices?: string[];
+  hintText: string; // 返信の案内
+  mentionText?: string;
+  prefix?: string;
+  jobId?: string;
+}
+
+export function renderQuestionBlocks(input: QuestionBlocksInput): KnownBlock[] {
+  const blocks: KnownBlock[] = [
+    ...header(withPrefix(input.heading, input.prefix)),
+    section(input.question),
+  ];
+
+  if (input.choices && input.choices.length > 0) {
+    blocks.push(section(input.choices.map((c, i) => `*${i + 1}.* ${c}`).join("\n")));
+  }
+
+  if (input.mentionText) {
+    blocks.push(section(input.mentionText));
+  }
+
+  blocks.push(context([input.hintText]));
+  blocks.push(footer(input.jobId));
+  return blocks;
+}
@@ -0,0 +1,205 @@
+import { readFileSync } from "fs";
+import { Locale, localize } from "./locale.js";
+import { MessageLevel, ParentStatus } from "./message-blocks.js";
+
+/**
+ * 投稿する文言のテンプレート
+ *
+ * `{{name}}` はプレースホルダー、`{{#name}}...{{/name}}` は name が空でない場合のみ出力する区間。
+ * 見出しは Slack の mrkdwn で書き、Block Kit の header では `*` を取り除いて使う。
+ * 各テンプレートで使えるプレースホルダーは README を参照。
+ */
+export interface MessageTemplates {
+  started: string; // 開始（親メッセージの見出し）
+  done: string; // 完了の見出し
+  failed: string; // 失敗の見出し
+  waiting: string; // 待機の見出し
+  question: string; // 質問の見出し
+  progress: string; // 進捗メッセージ
+  elapsed: string; // 親メッセージの経過時間
+  mention: string; // メンションの行
+  nextSuggestions: string; // 完了時の次の候補
+  logs: string; // 失敗時のログのヒント
+  questionHint: string; // 質問への返信の案内
+  questionHintChoices: string; // 選択肢付きの質問への返信の案内
+  waitingMonitor: string; // slack_thread_update の待機監視による自動通知
+  prompt: string; // CLI: UserPromptSubmit の進捗
+  response: string; // CLI: Stop の進捗
+  responseEmpty: string; // CLI: Stop で応答を取得できなかった場合
+  tool: string; // CLI: PostToolUse の進捗
+  levelEmoji: Record<MessageLevel, string>;
+}
+
+/**
+ * グローバル設定・テンプレートファイルでの指定（未指定のキーはデフォルト）
+ */
+export type MessageTemplatesConfig = Partial<Omit<MessageTemplates, "levelEmoji">> & {
+  levelEmoji?: Partial<Record<MessageLevel, string>>;
+};
+
+export type TemplateValues = Record<string, string | undefined>;
+
+const WITH_DURATION = "{{#duration}} ({{duration}}){{/duration}}";
+
+export const DEFAULT_LEVEL_EMOJI: Record<MessageLevel, string> = {
+  info: "⏳",
+  warn: "⚠️",
+  debug: "🔍",
+};
+
+// 言語によらない部分（見出しのラベルは状態名として英語のまま）
+const COMMON_TEMPLATES = {
+  started: "🚀 *Started:* {{title}}",
+  done: `✅ *Done:* {{title}}${WITH_DURATION}`,
+  failed: `❌ *Failed:* {{title}}${WITH_DURATION}`,
+  waiting: `⏸️ *Waiting:* {{title}}${WITH_DURATION}`,
+  question: "❓ *Question:* {{title}}",
+  progress: "{{emoji}} {{message}}",
+  mention: "{{mention}}",
+  prompt: "*Prompt:* {{prompt}}",
+  response: "*Response:* {{response}}",
+  tool: "*{{tool}}*{{#details}}: {{details}}{{/details}}",
+  levelEmoji: DEFAULT_LEVEL_EMOJI,
+};
+
+export const DEFAULT_MESSAGE_TEMPLATES: Record<Locale, MessageTemplates> = {
+  en: {
+    ...COMMON_TEMPLATES,
+    elapsed: "Elapsed: {{duration}}",
+    nextSuggestions: "*Next suggestions:*\n{{suggestions}}",
+    logs: "*Logs:* {{logs}}",
+    questionHint: "Reply to this thread with your answer",
+    questionHintChoices: "Reply to this thread with a number or your answer",
+    waitingMonitor: "⏸️ Processing is paused (it may be waiting for a permission check or user input)",
+    responseEmpty: "Response complete",
+  },
+  ja: {
+    ...COMMON_TEMPLATES,
+    elapsed: "経過時間: {{duration}}",
+    nextSuggestions: "*次の候補:*\n{{suggestions}}",
+    logs: "*ログ:* {{logs}}",
+    questionHint: "このスレッドに回答を返信してください",
+    questionHintChoices: "このスレッドに番号または回答を返信してください",
+    waitingMonitor: "⏸️ 処理が一時停止しています（権限確認やユーザー入力待ちの可能性があります）",
+    responseEmpty: "応答完了",
+  },
+};
+
+const MESSAGES = {
+  en: {
+    notObject: "Message templates must be an object",
+    unknownKey: (key: string, keys: string[]) =>
+      `Unknown message template: ${key} (expected one of ${keys.join(", ")})`,
+    levelEmojiNotObject: "levelEmoji must be an object",
+    invalidLevelEmoji: (level: string, levels: string[]) =>
+      `Invalid levelEmoji: ${level} (expected a string for ${levels.join(", ")})`,
+    notString: (key: string) => `Message template ${key} must be a string`,
+    unreadableFile: (path: string, reason: string) => `Cannot read templates file: ${path} (${reason})`,
+  },
+  ja: {
+    notObject: "メッセージテンプレートはオブジェクトで指定してください",
+    unknownKey: (key: string, keys: string[]) =>
+      `不明なメッセージテンプレートです: ${key}（${keys.join(", ")} のいずれか）`,
+    levelEmojiNotObject: "levelEmoji はオブジェクトで指定してください",
+    invalidLevelEmoji: (level: string, levels: string[]) =>
+      `levelEmoji の指定が不正です: ${level}（${levels.join(", ")} に文字列を指定）`,
+    notString: (key: string) => `メッセージテンプレート ${key} は文字列で指定してください`,
+    unreadableFile: (path: string, reason: string) => `テンプレートファイルを読み込めません: ${path}（${reason}）`,
+  },
+};
+
+export type HeadingTemplateKey = "started" | "done" | "failed" | "waiting" | "question";
+
+// 親メッセージの状態ごとの見出し
+export const PARENT_STATUS_TEMPLATE: Record<ParentStatus, HeadingTemplateKey> = {
+  in_progress: "started",
+  waiting: "waiting",
+  completed: "done",
+  failed: "failed",
+};
+
+const TEMPLATE_KEYS = Object.keys(DEFAULT_MESSAGE_TEMPLATES.ja) as (keyof MessageTemplates)[];
+const LEVEL_KEYS = Object.keys(DEFAULT_LEVEL_EMOJI) as MessageLevel[];
+
+// 区間とプレースホルダーを1回の走査で置き換える（埋め込んだ値を再び走査しないように）
+const TEMPLATE_TOKEN_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}|\{\{(\w+)\}\}/g;
+
+/**
+ * テンプレートにプレースホルダーの値を埋め込む（値のないプレースホルダーは空文字）
+ * 値に含まれる `{{...}}` はそのまま出力する
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+  return template.replace(
+    TEMPLATE_TOKEN_PATTERN,
+    (_, section: string | undefined, inner: string | undefined, name: string | undefined) =>
+      section !== undefined
+        ? values[section]
+          ? renderTemplate(inner ?? "", values)
+          : ""
+        : (values[name ?? ""] ?? "")
+  );
+}
+
+/**
+ * Block Kit の header（plain_text）用に、テンプレート自体の太字の `*` を取り除いて埋め込む
+ * （タイトルなどの値に含まれる `*` はそのまま残す）
+ */
+export function renderPlainTemplate(template: string, values: TemplateValues): string {
+  return renderTemplate(template.replace(/\*/g, ""), values);
+}
+
+/**
+ * 指定されたテンプレートを現在の言語のデフォルトに重ねる
+ */
+export function resolveMessageTemplates(config?: MessageTemplatesConfig): MessageTemplates {
+  const defaults = localize(DEFAULT_MESSAGE_TEMPLATES);
+  return {
+    ...defaults,
+    ...config,
+    levelEmoji: { ...defaults.levelEmoji, ...config?.levelEmoji },
+  };
+}
+
+/**
+ * テンプレートの指定を検証（未知のキーや文字列以外の値はエラー）
+ */
+export function parseMessageTemplates(value: unknown): MessageTemplatesConfig {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(localize(MESSAGES).notObject);
+  }
+
+  for (const [key, template] of Object.entries(value)) {
+    if (!TEMPLATE_KEYS.includes(key as keyof MessageTemplates)) {
+      throw new Error(localize(MESSAGES).unknownKey(key, TEMPLATE_KEYS));
+    }
+    if (key === "levelEmoji") {
+      if (typeof template !== "object" || template === null || Array.isArray(template)) {
+        throw new Error(localize(MESSAGES).levelEmojiNotObject);
+      }
+      for (const [level, emoji] of Object.entries(template)) {
+        if (!LEVEL_KEYS.includes(level as MessageLevel) || typeof emoji !== "string") {
+          throw new Error(localize(MESSAGES).invalidLevelEmoji(level, LEVEL_KEYS));
+        }
+      }
+    } else if (typeof template !== "string") {
+      throw new Error(localize(MESSAGES).notString(key));
+    }
+  }
+
+  return value as MessageTemplatesConfig;
+}
+
+/**
+ * JSON のテンプレートファイルを読み込む
+ */
+export function loadMessageTemplatesFile(path: string): MessageTemplatesConfig {
+  let content: unknown;
+  try {
+    content = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      localize(MESSAGES).unreadableFile(path, error instanceof Error ? error.message : String(error))
+    );
+  }
+  return parseMessageTemplates(content);
+}
@@ -0,0 +1,779 @@
+import type { KnownBlock } from "@slack/web-api";
+import { formatDurationShort } from "./duration.js";
+import { formatGitChangeSummary, GitChangeSummary } from "./git-summary.js";
+import { formatJobDurations, JobDurations } from "./job-timing.js";
+import { localize } from "./locale.js";
+import {
+  MessageLevel,
+  PARENT_SUMMARY_MAX_LENGTH,
+  ParentStatus,
+  renderCompleteBlocks,
+  renderFailBlocks,
+  renderParentBlocks,
+  renderParentStatusBlocks,
+  renderQuestionBlocks,
+  renderReplyBlocks,
+  renderWaitingBlocks,
+  truncate,
+} from "./message-blocks.js";
+import {
+  HeadingTemplateKey,
+  MessageTemplates,
+  MessageTemplatesConfig,
+  PARENT_STATUS_TEMPLATE,
+  renderPlainTemplate,
+  renderTemplate,
+  resolveMessageTemplates,
+  TemplateValues,
+} from "./message-templates.js";
+import {
+  decideMention,
+  MentionEventType,
+  MentionPolicy,
+  stripBroadcastMentions,
+} from "./mention-policy.js";
+import { formatProgress, ProgressInfo } from "./progress.js";
+
+export type NotifierType = "slack" | "slack-webhook" | "webhook";
+
+const MESSAGES = {
+  en: {
+    questionUnsupported:
+      "This notifier backend cannot post questions (it cannot read thread replies)",
+    readRepliesUnsupported: "This notifier backend cannot read thread replies",
+    uploadUnsupported: "This notifier backend cannot attach files",
+    waitingNotifyFailed: (jobId: string) =>
+      `Failed to post the waiting notification for job ${jobId}:`,
+  },
+  ja: {
+    questionUnsupported:
+      "この通知バックエンドは質問の投稿に対応していません（スレッドの返信を読み取れないため）",
+    readRepliesUnsupported: "この通知バックエンドはスレッド返信の読み取りに対応していません",
+    uploadUnsupported: "この通知バックエンドはファイルの添付に対応していません",
+    waitingNotifyFailed: (jobId: string) => `ジョブ ${jobId} の待機通知の投稿に失敗しました:`,
+  },
+};
+
+export interface NotifierConfig {
+  defaultChannel: string;
+  mentionUserIds?: string[];
+  mentionGroupId?: string;
+  postPrefix?: string;
+  useChannelMention?: boolean; // @channel をデフォルトで使用するか
+  templates?: MessageTemplatesConfig; // 文言のテンプレート（未指定のキーはデフォルト）
+  mentionPolicy?: MentionPolicy; // メンションのルール・静かな時間帯・勤務時間
+}
+
+export interface PostResult {
+  ok: boolean;
+  channel: string;
+  ts: string;
+  permalink?: string;
+}
+
+export interface ReplyResult {
+  ok: boolean;
+  ts?: string;
+}
+
+export interface ThreadReply {
+  user?: string;
+  text: string;
+  ts: string;
+}
+
+export interface ThreadRepliesResult {
+  replies: ThreadReply[]; // Bot 自身の投稿を除いた返信（古い順）
+  latestTs?: string; // 取得した返信（Bot 自身の投稿を含む）のうち最新の ts（次回の読み取り開始位置）
+}
+
+/**
+ * スレッドに添付するファイル
+ */
+export interface FileAttachment {
+  filename: string;
+  content: Buffer;
+  title?: string;
+  comment?: string; // ファイルと一緒に投稿するメッセージ
+}
+
+export interface UploadResult {
+  ok: boolean;
+  fileId?: string;
+  permalink?: string;
+}
+
+/**
+ * 親メッセージの再描画内容
+ */
+export interface ParentMessageUpdate {
+  status: ParentStatus;
+  title: string;
+  meta?: Record<string, unknown>;
+  startedAt: string; // 経過時間の起点（ISO 8601）
+  durations?: JobDurations; // 指定時は待機時間を含めて表示する
+  summary?: string; // 完了サマリ / エラー概要 / 待機理由
+  previousStatus?: ParentStatus; // 現在の親メッセージの状態（リアクションの付け替え用）
+}
+
+export interface WaitingNotification {
+  jobId: string;
+  timeout: NodeJS.Timeout;
+  notified: boolean;
+}
+
+export interface RenderedMessage {
+  text: string;
+  blocks: KnownBlock[];
+  mentioned: boolean; // メンションポリシーの判定後、実際にメンションを含めたか
+}
+
+/**
+ * 投稿時のメンションの指定（メンションポリシーの判定に使う）
+ */
+export interface MentionRequest {
+  requested: boolean; // 呼び出し時の指定（ポリシーのルールに一致しない場合に使用）
+  channel: string;
+}
+
+/**
+ * 通知バックエンドの共通インターフェース
+ */
+export interface Notifier {
+  startWaitingMonitor(
+    jobId: string,
+    channel: string,
+    threadTs: string,
+    timeoutMs?: number
+  ): void;
+  cancelWaitingMonitor(jobId: string): void;
+  wasWaitingNotified(jobId: string): boolean;
+
+  postParentMessage(
+    channel: string,
+    title: string,
+    meta?: Record<string, unknown>,
+    mention?: boolean,
+    jobId?: string
+  ): Promise<PostResult>;
+  postThreadReply(
+    channel: string,
+    threadTs: string,
+    message: string,
+    level?: MessageLevel,
+    mention?: boolean,
+    jobId?: string
+  ): Promise<ReplyResult>;
+  upsertThreadReply(
+    channel: string,
+    threadTs: string,
+    message: string,
+    level?: MessageLevel,
+    mention?: boolean,
+    messageTs?: string,
+    progress?: ProgressInfo,
+    jobId?: string
+  ): Promise<ReplyResult>;
+  postComplete(
+    channel: string,
+    threadTs: string,
+    title: string,
+    summary?: string,
+    nextSuggestions?: string[],
+    mention?: boolean,
+    jobId?: string,
+    durations?: JobDurations,
+    gitChanges?: GitChangeSummary
+  ): Promise<ReplyResult>;
+  postFail(
+    channel: string,
+    threadTs: string,
+    title: string,
+    errorSummary: string,
+    logsHint?: string,
+    mention?: boolean,
+    jobId?: string,
+    durations?: JobDurations
+  ): Promise<ReplyResult>;
+  postWaiting(
+    channel: string,
+    threadTs: string,
+    title: string,
+    reason: string,
+    mention?: boolean,
+    messageTs?: string,
+    jobId?: string
+  ): Promise<ReplyResult>;
+
+  postQuestion(
+    channel: string,
+    threadTs: string,
+    title: string,
+    question: string,
+    choices?: string[],
+    mention?: boolean,
+    jobId?: string
+  ): Promise<ReplyResult>;
+  updateParentMessage(
+    channel: string,
+    threadTs: string,
+    update: ParentMessageUpdate,
+    jobId?: string
+  ): Promise<ReplyResult>;
+  readThreadReplies(
+    channel: string,
+    threadTs: string,
+    oldestTs?: string
+  ): Promise<ThreadRepliesResult>;
+  uploadFile(channel: string, threadTs: string, file: FileAttachment): Promise<UploadResult>;
+
+  getDefaultChannel(): string;
+  setHookEvent(hookEvent: string | undefined): void;
+}
+
+/**
+ * 再試行で成功する可能性のある送信エラー（ネットワークエラー・レート制限・5xx など）
+ */
+export class RetryableNotifierError extends Error {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "RetryableNotifierError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Retry-After ヘッダー（秒）をミリ秒に変換
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+}
+
+/**
+ * Slack の ts を比較（浮動小数点の精度に依存しないよう整数部と小数部を別々に比較）
+ */
+export function compareTs(a: string, b: string): number {
+  const [aSec, aMicro = ""] = a.split(".");
+  const [bSec, bMicro = ""] = b.split(".");
+  const secDiff = Number(aSec) - Number(bSec);
+  if (secDiff !== 0) {
+    return secDiff;
+  }
+  return Number(aMicro.padEnd(6, "0")) - Number(bMicro.padEnd(6, "0"));
+}
+
+let syntheticCounter = 0;
+
+/**
+ * Slack の ts 形式を模した擬似タイムスタンプを生成
+ * （ts を返さないバックエンドでも ThreadStore の遅延初期化・upsert が動作するように）
+ */
+export function syntheticTs(): string {
+  const seconds = Math.floor(Date.now() / 1000);
+  syntheticCounter = (syntheticCounter + 1) % 1000;
+  const micros = (Date.now() % 1000) * 1000 + syntheticCounter;
+  return `${seconds}.${String(micros).padStart(6, "0")}`;
+}
+
+/**
+ * meta を "• key: value" の行にする（テキスト表示・テンプレートの {{meta}} 用）
+ */
+function formatMetaLines(meta: Record<string, unknown> | undefined): string {
+  return meta
+    ? Object.entries(meta)
+        .map(([k, v]) => `• ${k}: ${v}`)
+        .join("\n")
+    : "";
+}
+
+/**
+ * メッセージ整形と待機監視を共通化した基底クラス
+ * 各バックエンドは送信処理のみを実装する
+ */
+export abstract class BaseNotifier implements Notifier {
+  protected config: NotifierConfig;
+  protected templates: MessageTemplates;
+  private waitingNotifications: Map<string, WaitingNotification> = new Map();
+  private defaultWaitingTimeoutMs: number = 30000; // 30秒
+  private hookEvent?: string; // メンションポリシーの hookEvents の判定に使う
+
+  constructor(config: NotifierConfig) {
+    this.config = config;
+    this.templates = resolveMessageTemplates(config.templates);
+  }
+
+  /**
+   * 権限確認待ち状態の監視を開始
+   * 指定時間後に応答がない場合、Slackに「確認待ち」通知を送信
+   */
+  startWaitingMonitor(
+    jobId: string,
+    channel: string,
+    threadTs: string,
+    timeoutMs?: number
+  ): void {
+    // 既存の監視があればキャンセル
+    this.cancelWaitingMonitor(jobId);
+
+    // タイマーから呼ばれるため、投稿の失敗はここで握りつぶしてログに残す
+    const timeout = setTimeout(async () => {
+      try {
+        const notification = this.waitingNotifications.get(jobId);
+        if (notification && !notification.notified) {
+          notification.notified = true;
+          await this.postThreadReply(
+            channel,
+            threadTs,
+            renderTemplate(this.templates.waitingMonitor, { job_id: jobId }),
+            "warn",
+            false,
+            jobId
+          );
+        }
+      } catch (error) {
+        console.error(
+          localize(MESSAGES).waitingNotifyFailed(jobId),
+          error instanceof Error ? error.message : error
+        );
+      }
+    }, timeoutMs || this.defaultWaitingTimeoutMs);
+
+    this.waitingNotifications.set(jobId, {
+      jobId,
+      timeout,
+      notified: false,
+    });
+  }
+
+  /**
+   * 権限確認待ち状態の監視をキャンセル
+   */
+  cancelWaitingMonitor(jobId: string): void {
+    const notification = this.waitingNotifications.get(jobId);
+    if (notification) {
+      clearTimeout(notification.timeout);
+      this.waitingNotifications.delete(jobId);
+    }
+  }
+
+  /**
+   * 監視が通知済みかどうか確認
+   */
+  wasWaitingNotified(jobId: string): boolean {
+    const notification = this.waitingNotifications.get(jobId);
+    return notification?.notified ?? false;
+  }
+
+  protected formatPrefix(text: string): string {
+    if (this.config.postPrefix) {
+      return `${this.config.postPrefix} ${text}`;
+    }
+    return text;
+  }
+
+  /**
+   * メンションポリシーに従ってメンション先を決める
+   * ユーザーIDまたはグループIDが指定されている場合はそちらを優先し、
+   * 個別メンション先がない場合は @channel を使用（デフォルト動作）
+   */
+  protected formatMention(
+    event: MentionEventType,
+    mention: MentionRequest,
+    jobId?: string,
+    level?: MessageLevel
+  ): string {
+    const decision = decideMention(
+      this.config.mentionPolicy,
+      {
+        userIds: this.config.mentionUserIds ?? [],
+        groupIds: this.config.mentionGroupId ? [this.config.mentionGroupId] : [],
+        useChannelMention: this.config.useChannelMention !== false,
+      },
+      { event, requested: mention.requested, channel: mention.channel, jobId, level, hookEvent: this.hookEvent }
+    );
+
+    if (decision.channel) {
+      return "<!channel>";
+    }
+    return [
+      ...decision.userIds.map((id) => `<@${id}>`),
+      ...decision.groupIds.map((id) => `<!subteam^${id}>`),
+    ].join(" ");
+  }
+
+  /**
+   * メンションの行（メンションしない場合は空文字）
+   * allowChannelMention: false の場合はテンプレートに書かれた @channel / @here も取り除く
+   */
+  protected renderMention(
+    event: MentionEventType,
+    mention: MentionRequest | undefined,
+    jobId?: string,
+    level?: MessageLevel
+  ): string {
+    const mentionText = mention ? this.formatMention(event, mention, jobId, level) : "";
+    if (!mentionText) {
+      return "";
+    }
+    const line = renderTemplate(this.templates.mention, { mention: mentionText });
+    return this.config.mentionPolicy?.allowChannelMention === false
+      ? stripBroadcastMentions(line)
+      : line;
+  }
+
+  /**
+   * 見出しのテンプレートを描画（text はフォールバックのテキスト用、heading は Block Kit の header 用）
+   */
+  protected renderHeading(
+    key: HeadingTemplateKey,
+    values: TemplateValues
+  ): { text: string; heading: string } {
+    const template = this.templates[key];
+    return { text: renderTemplate(template, values), heading: renderPlainTemplate(template, values) };
+  }
+
+  protected renderParent(
+    title: string,
+    meta: Record<string, unknown> | undefined,
+    mention: MentionRequest | undefined, // undefined は状態の再描画（ポリシーによらずメンションしない）
+    jobId?: string
+  ): RenderedMessage {
+    const metaText = formatMetaLines(meta);
+    const mentionText = this.renderMention("start", mention, jobId);
+    const { text: headingText, heading } = this.renderHeading("started", {
+      title,
+      meta: metaText,
+      job_id: jobId,
+    });
+
+    const text = this.formatPrefix(
+      `${headingText}${metaText ? `\n${metaText}` : ""}${mentionText ? `\n\n${mentionText}` : ""}`
+    );
+    const blocks = renderParentBlocks({
+      heading,
+      meta,
+      mentionText,
+      prefix: this.config.postPrefix,
+      jobId,
+    });
+
+    return { text, blocks, mentioned: mentionText !== "" };
+  }
+
+  protected renderReply(
+    message: string,
+    level: MessageLevel,
+    mention: MentionRequest,
+    progress?: ProgressInfo,
+    jobId?: string
+  ): RenderedMessage {
+    const mentionText = this.renderMention("update", mention, jobId, level);
+    const progressText = progress ? formatProgress(progress) : "";
+    const line = renderTemplate(this.templates.progress, {
+      emoji: this.templates.levelEmoji[level],
+      level,
+      message,
+    });
+    const text = `${line}${progressText ? `\n${progressText}` : ""}${mentionText ? `\n\n${mentionText}` : ""}`;
+    const blocks = renderReplyBlocks({ message: line, progressText, mentionText });
+
+    return { text, blocks, mentioned: mentionText !== "" };
+  }
+
+  protected renderComplete(
+    title: string,
+    summary: string | undefined,
+    nextSuggestions: string[] | undefined,
+    mention: MentionRequest,
+    jobId?: string,
+    durations?: JobDurations,
+    gitChanges?: GitChangeSummary
+  ): RenderedMessage {
+    const mentionText = this.renderMention("complete", mention, jobId);
+    const { text: headingText, heading } = this.renderHeading("done", {
+      title,
+      duration: durations ? formatJobDurations(durations) : undefined,
+      summary,
+      job_id: jobId,
+    });
+    const gitChangesText = gitChanges ? formatGitChangeSummary(gitChanges) : undefined;
+    const suggestionsText =
+      nextSuggestions && nextSuggestions.length > 0
+        ? renderTemplate(this.templates.nextSuggestions, {
+            suggestions: nextSuggestions.map((s) => `• ${s}`).join("\n"),
+          })
+        : undefined;
+
+    const summaryText = summary ? `\n${summary}` : "";
+    const gitText = gitChangesText ? `\n\n${gitChangesText}` : "";
+    const text = this.formatPrefix(
+      `${headingText}${summaryText}${gitText}${suggestionsText ? `\n\n${suggestionsText}` : ""}${mentionText ? `\n\n${mentionText}` : ""}`
+    );
+    const blocks = renderCompleteBlocks({
+      heading,
+      summary,
+      gitChangesText,
+      suggestionsText,
+      mentionText,
+      prefix: this.config.postPrefix,
+      jobId,
+    });
+
+    return { text, blocks, mentioned: mentionText !== "" };
+  }
+
+  protected renderFail(
+    title: string,
+    errorSummary: string,
+    logsHint: string | undefined,
+    mention: MentionRequest,
+    jobId?: string,
+    durations?: JobDurations
+  ): RenderedMessage {
+    const mentionText = this.renderMention("fail", mention, jobId);
+    const { text: headingText, heading } = this.renderHeading("failed", {
+      title,
+      duration: durations ? formatJobDurations(durations) : undefined,
+      summary: errorSummary,
+      job_id: jobId,
+    });
+    const logsText = logsHint ? renderTemplate(this.templates.logs, { logs: logsHint }) : undefined;
+
+    const text = this.formatPrefix(
+      `${headingText}\n${errorSummary}${logsText ? `\n\n${logsText}` : ""}${mentionText ? `\n\n${mentionText}` : ""}`
+    );
+    const blocks = renderFailBlocks({
+      heading,
+      errorSummary,
+      logsText,
+      mentionText,
+      prefix: this.config.postPrefix,
+      jobId,
+    });
+
+    return { text, blocks, mentioned: mentionText !== "" };
+  }
+
+  protected renderWaiting(
+    title: string,
+    reason: string,
+    mention: MentionRequest,
+    jobId?: string
+  ): RenderedMessage {
+    const mentionText = this.renderMention("waiting", mention, jobId);
+    const { text: headingText, heading } = this.renderHeading("waiting", {
+      title,
+      summary: reason,
+      job_id: jobId,
+    });
+
+    const text = this.formatPrefix(
+      `${headingText}\n${reason}${mentionText ? `\n\n${mentionText}` : ""}`
+    );
+    const blocks = renderWaitingBlocks({
+      heading,
+      reason,
+      mentionText,
+      prefix: this.config.postPrefix,
+      jobId,
+    });
+
+    return { text, blocks, mentioned: mentionText !== "" };
+  }
+
+  /**
+   * ジョブの状態を反映した親メッセージ（メンションは含めない）
+   * 進行中に戻った場合は開始時と同じ表示にする
+   */
+  protected renderParentStatus(update: ParentMessageUpdate, jobId?: string): RenderedMessage {
+    if (update.status === "in_progress") {
+      return this.renderParent(update.title, update.meta, undefined, jobId);
+    }
+
+    const duration = update.durations
+      ? formatJobDurations(update.durations)
+      : formatDurationShort(Date.now() - Date.parse(update.startedAt));
+    const summary = update.summary
+      ? truncate(update.summary, PARENT_SUMMARY_MAX_LENGTH)
+      : undefined;
+    const metaText = formatMetaLines(update.meta);
+    const values: TemplateValues = { title: update.title, duration, summary, meta: metaText, job_id: jobId };
+    const template = this.templates[PARENT_STATUS_TEMPLATE[update.status]];
+
+    const text = this.formatPrefix(
+      `${renderTemplate(template, values)}${summary ? `\n${summary}` : ""}${metaText ? `\n${metaText}` : ""}`
+    );
+    // Block Kit では経過時間を見出しではなく context に表示する
+    const blocks = renderParentStatusBlocks({
+      heading: renderPlainTemplate(template, { ...values, duration: undefined }),
+      meta: update.meta,
+      elapsedText: renderTemplate(this.templates.elapsed, { duration }),
+      summary,
+      prefix: this.config.postPrefix,
+      jobId,
+    });
+
+    return { text, blocks, mentioned: false };
+  }
+
+  protected renderQuestion(
+    title: string,
+    question: string,
+    choices: string[] | undefined,
+    mention: MentionRequest,
+    jobId?: string
+  ): RenderedMessage {
+    const mentionText = this.renderMention("question", mention, jobId);
+    const hasChoices = choices !== undefined && choices.length > 0;
+    const { text: headingText, heading } = this.renderHeading("question", {
+      title,
+      summary: question,
+      job_id: jobId,
+    });
+    const choicesText = hasChoices
+      ? `\n\n${choices.map((c, i) => `${i + 1}. ${c}`).join("\n")}`
+      : "";
+
+    const text = this.formatPrefix(
+      `${headingText}\n${question}${choicesText}${mentionText ? `\n\n${mentionText}` : ""}`
+    );
+    const blocks = renderQuestionBlocks({
+      heading,
+      question,
+      choices,
+      hintText: hasChoices ? this.templates.questionHintChoices : this.templates.questionHint,
+      mentionText,
+      prefix: this.config.postPrefix,
+      jobId,
+    });
+
+    return { text, blocks, mentioned: mentionText !== "" };
+  }
+
+  abstract postParentMessage(
+    channel: string,
+    title: string,
+    meta?: Record<string, unknown>,
+    mention?: boolean,
+    jobId?: string
+  ): Promise<PostResult>;
+
+  abstract postThreadReply(
+    channel: string,
+    threadTs: string,
+    message: string,
+    level?: MessageLevel,
+    mention?: boolean,
+    jobId?: string
+  ): Promise<ReplyResult>;
+
+  abstract upsertThreadReply(
+    channel: string,
+    threadTs: string,
+    message: string,
+    level?: MessageLevel,
+    mention?: boolean,
+    messageTs?: string,
+    progress?: ProgressInfo,
+    jobId?: string
+  ): Promise<ReplyResult>;
+
+  abstract postComplete(
+    channel: string,
+    threadTs: string,
+    title: string,
+    summary?: string,
+    nextSuggestions?: string[],
+    mention?: boolean,
+    jobId?: string,
+    durations?: JobDurations,
+    gitChanges?: GitChangeSummary
+  ): Promise<ReplyResult>;
+
+  abstract postFail(
+    channel: string,
+    threadTs: string,
+    title: string,
+    errorSummary: string,
+    logsHint?: string,
+    mention?: boolean,
+    jobId?: string,
+    durations?: JobDurations
+  ): Promise<ReplyResult>;
+
+  abstract postWaiting(
+    channel: string,
+    threadTs: string,
+    title: string,
+    reason: string,
+    mention?: boolean,
+    messageTs?: string,
+    jobId?: string
+  ): Promise<ReplyResult>;
+
+  /**
+   * 親メッセージを再描画する（更新できないバックエンドでは何もしない）
+   */
+  async updateParentMessage(
+    _channel: string,
+    _threadTs: string,
+    _update: ParentMessageUpdate,
+    _jobId?: string
+  ): Promise<ReplyResult> {
+    return { ok: false };
+  }
+
+  /**
+   * スレッドに質問を投稿する（回答を読み取れないバックエンドではエラー）
+   */
+  async postQuestion(
+    _channel: string,
+    _threadTs: string,
+    _title: string,
+    _question: string,
+    _choices?: string[],
+    _mention?: boolean,
+    _jobId?: string
+  ): Promise<ReplyResult> {
+    throw new Error(localize(MESSAGES).questionUnsupported);
+  }
+
+  /**
+   * スレッドへの返信を読み取る（対応していないバックエンドではエラー）
+   */
+  async readThreadReplies(
+    _channel: string,
+    _threadTs: string,
+    _oldestTs?: string
+  ): Promise<ThreadRepliesResult> {
+    throw new Error(localize(MESSAGES).readRepliesUnsupported);
+  }
+
+  /**
+   * スレッドにファイルを添付する（対応していないバックエンドではエラー）
+   */
+  async uploadFile(
+    _channel: string,
+    _threadTs: string,
+    _file: FileAttachment
+  ): Promise<UploadResult> {
+    throw new Error(localize(MESSAGES).uploadUnsupported);
+  }
+
+  getDefaultChannel(): string {
+    return this.config.defaultChannel;
+  }
+
+  /**
+   * 以降の投稿のフックイベント名（CLI が操作ごとに設定する）
+   */
+  setHookEvent(hookEvent: string | undefined): void {
+    this.hookEvent = hookEvent;
+  }
+}
@@ -0,0 +1,671 @@
+import { existsSync, readFileSync } from "fs";
+import { readAttachment } from "./attachments.js";
+import { withFileLockSync, writeFileAtomicSync } from "./file-lock.js";
+import { GitChangeSummary } from "./git-summary.js";
+import { JobEventSource } from "./job-events.js";
+import { getJobDurations, JobDurations } from "./job-timing.js";
+import { localize } from "./locale.js";
+import { MessageLevel } from "./message-blocks.js";
+import { Notifier, RetryableNotifierError } from "./notifier.js";
+import { refreshParentMessage, resumeParentMessage } from "./parent-status.js";
+import { appendProgressPoint, estimateEtaMs, ProgressInfo } from "./progress.js";
+import { ThreadStore } from "./thread-store.js";
+import { parseThreadStatePath } from "./thread-storage.js";
+
+// 送信後に進捗メッセージの ts をどう扱うか
+export type ProgressAction = "save" | "clear" | "keep";
+
+/**
+ * 送信操作。ts は実行時に ThreadStore から解決するため、
+ * 再送時も「現在の進捗メッセージを上書きする」といった意味が保たれる
+ */
+export type OutboxOperation =
+  | {
+      type: "postParentMessage";
+      channel: string;
+      title: string;
+      meta?: Record<string, unknown>;
+      mention: boolean;
+      source?: JobEventSource; // イベント履歴に記録する発生元
+    }
+  | {
+      type: "upsertThreadReply";
+      channel: string;
+      threadTs?: string;
+      message: string;
+      level: MessageLevel;
+      mention: boolean;
+      clearProgressBefore?: boolean;
+      upsert: boolean;
+      progressAfter: ProgressAction;
+      progress?: { current: number; total: number; unit?: string; at: string }; // at: 記録時刻（再送時も ETA がずれないように）
+      source?: JobEventSource;
+    }
+  | {
+      type: "postWaiting";
+      channel: string;
+      threadTs?: string;
+      title: string;
+      reason: string;
+      mention: boolean;
+      upsert: boolean;
+      progressAfter: ProgressAction;
+      at?: string; // 待機を開始した時刻
+      source?: JobEventSource;
+    }
+  | {
+      type: "postComplete";
+      channel: string;
+      threadTs?: string;
+      title: string;
+      summary?: string;
+      nextSuggestions?: string[];
+      gitChanges?: GitChangeSummary; // 実行時のリポジトリの変更（再送時も同じ内容を投稿する）
+      mention: boolean;
+      at?: string; // 完了した時刻（再送時も所要時間がずれないように）
+      source?: JobEventSource;
+    }
+  | {
+      type: "postFail";
+      channel: string;
+      threadTs?: string;
+      title: string;
+      errorSummary: string;
+      logsHint?: string;
+      mention: boolean;
+      at?: string; // 失敗した時刻
+      source?: JobEventSource;
+    }
+  | {
+      type: "uploadFile";
+      channel: string;
+      threadTs?: string;
+      path: string; // 送信時に読み込む（再送時もファイルの内容は outbox に保持しない）
+      tailLines?: number; // 指定時は末尾の N 行のみ添付
+      comment?: string;
+      source?: JobEventSource;
+    };
+
+export interface OutboxEntry {
+  id: string;
+  jobId: string;
+  operation: OutboxOperation;
+  enqueuedAt: string;
+  attempts: number;
+  notBefore?: string; // Retry-After 等による次回送信可能時刻
+  lastError?: string;
+}
+
+export interface DeliveryResult {
+  ok: boolean;
+  channel?: string;
+  ts?: string;
+  permalink?: string;
+  skipped?: string; // 実行不要と判断した理由
+  queued?: boolean; // outbox に積まれた
+  durations?: JobDurations; // 完了・失敗時のジョブの所要時間
+  fileId?: string; // 添付したファイルの ID
+}
+
+export interface ReplayOptions {
+  wait?: boolean; // Retry-After まで待機して送信を続けるか
+  maxWaitMs?: number;
+  log?: (message: string, data?: unknown) => void;
+}
+
+export interface ReplaySummary {
+  delivered: number;
+  dropped: number;
+  remaining: number;
+}
+
+const MAX_ATTEMPTS = 10;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+const MESSAGES = {
+  en: {
+    threadNotFound: (jobId: string) => `Thread not found: job_id=${jobId}`,
+  },
+  ja: {
+    threadNotFound: (jobId: string) => `スレッドが見つかりません: job_id=${jobId}`,
+  },
+};
+
+/**
+ * THREAD_STATE_PATH に対応する outbox ファイルのパス
+ * （threads.json → threads.outbox.json、sqlite:threads.db → threads.outbox.json）
+ */
+export function outboxPathFor(threadStatePath: string): string {
+  const path = parseThreadStatePath(threadStatePath).path ?? threadStatePath;
+  return path.replace(/\.(json|db|sqlite3?)$/, "") + ".outbox.json";
+}
+
+/**
+ * 送信に失敗した操作を永続化するキュー
+ */
+export class Outbox {
+  private persistPath: string;
+
+  constructor(persistPath: string) {
+    this.persistPath = persistPath;
+  }
+
+  private load(): OutboxEntry[] {
+    if (!existsSync(this.persistPath)) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(readFileSync(this.persistPath, "utf-8")) as OutboxEntry[];
+    } catch {
+      // If file is corrupted, start fresh
+      return [];
+    }
+  }
+
+  private save(entries: OutboxEntry[]): void {
+    writeFileAtomicSync(this.persistPath, JSON.stringify(entries, null, 2));
+  }
+
+  /**
+   * 複数プロセスからの同時更新で操作が失われないよう、ロック下で read-modify-write する
+   */
+  private transact<T>(fn: (entries: OutboxEntry[]) => T): T {
+    return withFileLockSync(`${this.persistPath}.lock`, () => {
+      const entries = this.load();
+      const result = fn(entries);
+      this.save(entries);
+      return result;
+    });
+  }
+
+  list(): OutboxEntry[] {
+    return this.load();
+  }
+
+  has(id: string): boolean {
+    return this.load().some((entry) => entry.id === id);
+  }
+
+  hasPending(jobId: string, type?: OutboxOperation["type"]): boolean {
+    return this.load().some(
+      (entry) => entry.jobId === jobId && (type === undefined || entry.operation.type === type)
+    );
+  }
+
+  enqueue(jobId: string, operation: OutboxOperation, error?: unknown): OutboxEntry {
+    const entry: OutboxEntry = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+      jobId,
+      operation,
+      enqueuedAt: new Date().toISOString(),
+      attempts: error ? 1 : 0,
+    };
+
+    if (error instanceof RetryableNotifierError) {
+      entry.lastError = error.message;
+      if (error.retryAfterMs !== undefined) {
+        entry.notBefore = new Date(Date.now() + error.retryAfterMs).toISOString();
+      }
+    }
+
+    this.transact((entries) => entries.push(entry));
+    return entry;
+  }
+
+  remove(id: string): void {
+    this.transact((entries) => {
+      const index = entries.findIndex((entry) => entry.id === id);
+      if (index >= 0) {
+        entries.splice(index, 1);
+      }
+    });
+  }
+
+  /**
+   * 失敗を記録し、次回送信可能時刻を設定
+   */
+  markFailed(id: string, error: RetryableNotifierError): OutboxEntry | undefined {
+    return this.transact((entries) => {
+      const entry = entries.find((e) => e.id === id);
+      if (!entry) {
+        return undefined;
+      }
+
+      entry.attempts += 1;
+      entry.lastError = error.message;
+      const delayMs =
+        error.retryAfterMs ?? Math.min(1000 * 2 ** entry.attempts, MAX_BACKOFF_MS);
+      entry.notBefore = new Date(Date.now() + delayMs).toISOString();
+      return entry;
+    });
+  }
+}
+
+function resolveThreadTs(
+  jobId: string,
+  threadStore: ThreadStore,
+  threadTs?: string
+): string {
+  const resolved = threadTs || threadStore.get(jobId)?.threadTs;
+  if (!resolved) {
+    throw new Error(localize(MESSAGES).threadNotFound(jobId));
+  }
+  return resolved;
+}
+
+/**
+ * 操作を実行し、結果に応じて ThreadStore を更新
+ */
+export async function executeOperation(
+  notifier: Notifier,
+  threadStore: ThreadStore,
+  jobId: string,
+  operation: OutboxOperation
+): Promise<DeliveryResult> {
+  // 再送時も、操作を記録したときのフックイベントでメンションを判定する
+  notifier.setHookEvent(operation.source?.hookEvent);
+  switch (operation.type) {
+    case "postParentMessage": {
+      // 冪等性: 先行する操作で既にスレッドが作成済みなら再利用
+      const state = threadStore.get(jobId);
+      if (state?.threadTs) {
+        return {
+          ok: true,
+          channel: state.channel,
+          ts: state.threadTs,
+          permalink: state.permalink,
+          skipped: "Thread already exists",
+        };
+      }
+
+      const result = await notifier.postParentMessage(
+        operation.channel,
+        operation.title,
+        operation.meta,
+        operation.mention,
+        jobId
+      );
+
+      if (result.ok) {
+        const { created } = threadStore.createIfAbsent(
+          jobId,
+          result.channel,
+          result.ts,
+          operation.title,
+          result.permalink,
+          operation.meta
+        );
+        if (!created) {
+          threadStore.updateThreadTs(jobId, result.ts, result.permalink, operation.meta);
+        }
+        threadStore.recordEvent(jobId, {
+          type: "start",
+          message: operation.title,
+          ts: result.ts,
+          ...operation.source,
+        });
+        // 進行中のリアクションを付ける（edit では投稿時の表示のままのため書き換えない）
+        await resumeParentMessage(notifier, threadStore, jobId);
+      }
+
+      return {
+        ok: result.ok,
+        channel: result.channel,
+        ts: result.ts,
+        permalink: result.permalink,
+      };
+    }
+
+    case "upsertThreadReply": {
+      if (threadStore.isTerminal(jobId)) {
+        return { ok: false, skipped: "Job already terminated" };
+      }
+      const threadTs = resolveThreadTs(jobId, threadStore, operation.threadTs);
+
+      // スレッド状態は送信に成功してから更新する（失敗して再送された場合に進捗を二重に記録しないように）
+      let progress: ProgressInfo | undefined;
+      if (operation.progress) {
+        const { current, total, unit, at } = operation.progress;
+        const history = appendProgressPoint(threadStore.get(jobId)?.progressHistory, {
+          current,
+          total,
+          at,
+        });
+        progress = { current, total, unit, etaMs: estimateEtaMs(history) };
+      }
+
+      const messageTs =
+        operation.upsert && !operation.clearProgressBefore
+          ? threadStore.getProgressMessageTs(jobId)
+          : undefined;
+      const result = await notifier.upsertThreadReply(
+        operation.channel,
+        threadTs,
+        operation.message,
+        operation.level,
+        operation.mention,
+        messageTs,
+        progress,
+        jobId
+      );
+
+      if (result.ok) {
+        if (operation.clearProgressBefore) {
+          threadStore.clearProgressMessageTs(jobId);
+        }
+        threadStore.updateStatus(jobId, "in_progress");
+        if (operation.progress) {
+          const { current, total, at } = operation.progress;
+          threadStore.recordProgress(jobId, current, total, at);
+        }
+      }
+      if (result.ok && result.ts) {
+        if (operation.progressAfter === "save") {
+          threadStore.updateProgressMessageTs(jobId, result.ts);
+        } else if (operation.progressAfter === "clear") {
+          threadStore.clearProgressMessageTs(jobId);
+        }
+      }
+      if (result.ok) {
+        threadStore.recordEvent(jobId, {
+          type: "update",
+          message: operation.message,
+          level: operation.level,
+          ts: result.ts,
+          edited: messageTs !== undefined && result.ts === messageTs,
+          ...operation.source,
+        });
+        await resumeParentMessage(notifier, threadStore, jobId);
+      }
+
+      return { ok: result.ok, ts: result.ts };
+    }
+
+    case "postWaiting": {
+      if (threadStore.isTerminal(jobId)) {
+        return { ok: false, skipped: "Job already terminated" };
+      }
+      const threadTs = resolveThreadTs(jobId, threadStore, operation.threadTs);
+
+      const messageTs = operation.upsert ? threadStore.getProgressMessageTs(jobId) : undefined;
+      const result = await notifier.postWaiting(
+        operation.channel,
+        threadTs,
+        operation.title,
+        operation.reason,
+        operation.mention,
+        messageTs,
+        jobId
+      );
+
+      if (result.ok) {
+        if (operation.progressAfter === "save" && result.ts) {
+          threadStore.updateProgressMessageTs(jobId, result.ts);
+        } else if (operation.progressAfter === "clear") {
+          threadStore.clearProgressMessageTs(jobId);
+        }
+        threadStore.startWaiting(jobId, operation.at);
+        threadStore.recordEvent(jobId, {
+          type: "waiting",
+          at: operation.at,
+          message: operation.reason,
+          ts: result.ts,
+          edited: messageTs !== undefined && result.ts === messageTs,
+          ...operation.source,
+        });
+        await refreshParentMessage(notifier, threadStore, jobId, "waiting", operation.reason);
+      }
+
+      return { ok: result.ok, ts: result.ts };
+    }
+
+    case "postComplete": {
+      // 冪等性: 既に終了済みなら何もしない
+      if (threadStore.isTerminal(jobId)) {
+        return { ok: true, skipped: "Job already terminated" };
+      }
+      const threadTs = resolveThreadTs(jobId, threadStore, operation.threadTs);
+      const finishedAt = operation.at ?? new Date().toISOString();
+      const state = threadStore.get(jobId);
+      const durations = state ? getJobDurations(state, Date.parse(finishedAt)) : undefined;
+
+      const result = await notifier.postComplete(
+        operation.channel,
+        threadTs,
+        operation.title,
+        operation.summary,
+        operation.nextSuggestions,
+        operation.mention,
+        jobId,
+        durations,
+        operation.gitChanges
+      );
+
+      if (result.ok) {
+        threadStore.updateStatus(jobId, "completed", finishedAt);
+        threadStore.recordEvent(jobId, {
+          type: "complete",
+          at: finishedAt,
+          message: operation.summary,
+          nextSuggestions: operation.nextSuggestions,
+          ts: result.ts,
+          ...operation.source,
+        });
+        await refreshParentMessage(notifier, threadStore, jobId, "completed", operation.summary);
+      }
+
+      return { ok: result.ok, ts: result.ts, durations };
+    }
+
+    case "postFail": {
+      // 冪等性: 既に終了済みなら何もしない
+      if (threadStore.isTerminal(jobId)) {
+        return { ok: true, skipped: "Job already terminated" };
+      }
+      const threadTs = resolveThreadTs(jobId, threadStore, operation.threadTs);
+      const finishedAt = operation.at ?? new Date().toISOString();
+      const state = threadStore.get(jobId);
+      const durations = state ? getJobDurations(state, Date.parse(finishedAt)) : undefined;
+
+      const result = await notifier.postFail(
+        operation.channel,
+        threadTs,
+        operation.title,
+        operation.errorSummary,
+        operation.logsHint,
+        operation.mention,
+        jobId,
+        durations
+      );
+
+      if (result.ok) {
+        threadStore.updateStatus(jobId, "failed", finishedAt);
+        threadStore.recordEvent(jobId, {
+          type: "fail",
+          at: finishedAt,
+          message: operation.errorSummary,
+          logsHint: operation.logsHint,
+          ts: result.ts,
+          ...operation.source,
+        });
+        await refreshParentMessage(notifier, threadStore, jobId, "failed", operation.errorSummary);
+      }
+
+      return { ok: result.ok, ts: result.ts, durations };
+    }
+
+    case "uploadFile": {
+      // 完了・失敗の後にログを添付することもあるため、終了済みでも送信する
+      const threadTs = resolveThreadTs(jobId, threadStore, operation.threadTs);
+      const file = readAttachment(operation.path, operation.tailLines, operation.comment);
+      const result = await notifier.uploadFile(operation.channel, threadTs, file);
+
+      if (result.ok) {
+        threadStore.recordEvent(jobId, {
+          type: "attachment",
+          message: file.title ?? file.filename,
+          ...operation.source,
+        });
+      }
+
+      return { ok: result.ok, fileId: result.fileId, permalink: result.permalink };
+    }
+  }
+}
+
+/**
+ * 操作を送信し、一時的な障害で失敗した場合は outbox に積む
+ * 同じジョブに未送信の操作がある場合は、順序を保つため送信せずに後ろへ積む
+ * 状態の確認から送信・保存までをジョブ単位のロック下で行うため、
+ * 複数プロセスが同時に同じジョブへ送信しても親メッセージは一度しか投稿されない
+ */
+export async function deliverOperation(
+  notifier: Notifier,
+  threadStore: ThreadStore,
+  jobId: string,
+  operation: OutboxOperation,
+  outbox?: Outbox
+): Promise<DeliveryResult> {
+  return threadStore.withJobLock(jobId, async () => {
+    if (outbox?.hasPending(jobId)) {
+      enqueueOperation(outbox, threadStore, jobId, operation);
+      return { ok: false, queued: true };
+    }
+
+    try {
+      return await executeOperation(notifier, threadStore, jobId, operation);
+    } catch (error) {
+      if (outbox && error instanceof RetryableNotifierError) {
+        enqueueOperation(outbox, threadStore, jobId, operation, error);
+        return { ok: false, queued: true };
+      }
+      throw error;
+    }
+  });
+}
+
+function enqueueOperation(
+  outbox: Outbox,
+  threadStore: ThreadStore,
+  jobId: string,
+  operation: OutboxOperation,
+  error?: unknown
+): void {
+  // 親メッセージが未作成の間も後続の操作が同じジョブに紐づくよう、プレースホルダー状態を作成
+  if (operation.type === "postParentMessage") {
+    threadStore.createIfAbsent(jobId, operation.channel, "", operation.title);
+  }
+  outbox.enqueue(jobId, operation, error);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * ジョブごとの先頭の操作（送信できないジョブを除く）
+ */
+function jobHeads(entries: OutboxEntry[], blockedJobs: Set<string>): OutboxEntry[] {
+  const seen = new Set<string>();
+  const heads: OutboxEntry[] = [];
+  for (const entry of entries) {
+    if (!seen.has(entry.jobId)) {
+      seen.add(entry.jobId);
+      if (!blockedJobs.has(entry.jobId)) {
+        heads.push(entry);
+      }
+    }
+  }
+  return heads;
+}
+
+/**
+ * outbox の操作を先頭から順に再送
+ * 一時的な障害が続くジョブは、順序を保つためそのジョブの残りの操作のみ次回に回す
+ */
+export async function replayOutbox(
+  outbox: Outbox,
+  notifier: Notifier,
+  threadStore: ThreadStore,
+  options: ReplayOptions = {}
+): Promise<ReplaySummary> {
+  const log = options.log ?? (() => {});
+  const maxWaitMs = options.maxWaitMs ?? 60000;
+  const summary: ReplaySummary = { delivered: 0, dropped: 0, remaining: 0 };
+  // 今回の再送で先頭の操作を送れなかったジョブ（同じジョブの後続の操作は順序を保つため送らない）
+  const blockedJobs = new Set<string>();
+
+  for (;;) {
+    const heads = jobHeads(outbox.list(), blockedJobs);
+    if (heads.length === 0) {
+      break;
+    }
+    // 送信可能なものを優先し、なければ最も早く送信可能になるものを待つ
+    const now = Date.now();
+    const entry =
+      heads.find((e) => !e.notBefore || Date.parse(e.notBefore) <= now) ??
+      heads.reduce((a, b) => (Date.parse(b.notBefore ?? "") < Date.parse(a.notBefore ?? "") ? b : a));
+
+    if (entry.notBefore) {
+      const delayMs = new Date(entry.notBefore).getTime() - Date.now();
+      if (delayMs > 0) {
+        if (!options.wait || delayMs > maxWaitMs) {
+          log("Outbox entry not yet due", { id: entry.id, notBefore: entry.notBefore });
+          blockedJobs.add(entry.jobId);
+          continue;
+        }
+        log("Waiting for Retry-After", { id: entry.id, delayMs });
+        await sleep(delayMs);
+      }
+    }
+
+    // 他のプロセスが同じ操作を再送しないよう、ジョブ単位のロック下で実行
+    const outcome = await threadStore.withJobLock(entry.jobId, async () => {
+      if (!outbox.has(entry.id)) {
+        return "gone" as const;
+      }
+
+      try {
+        const result = await executeOperation(notifier, threadStore, entry.jobId, entry.operation);
+        // 例外にならない送信失敗（ok: false）も再試行の対象にする（実行不要と判断した場合を除く）
+        if (!result.ok && !result.skipped) {
+          throw new RetryableNotifierError(`Notifier returned ok: false (${entry.operation.type})`);
+        }
+        outbox.remove(entry.id);
+        log("Replayed outbox entry", { id: entry.id, type: entry.operation.type, result });
+        return "delivered" as const;
+      } catch (error) {
+        if (error instanceof RetryableNotifierError) {
+          const updated = outbox.markFailed(entry.id, error);
+          if (updated && updated.attempts >= MAX_ATTEMPTS) {
+            outbox.remove(entry.id);
+            log("Dropped outbox entry after max attempts", { id: entry.id, error: error.message });
+            return "dropped" as const;
+          }
+          log("Outbox replay failed, will retry later", { id: entry.id, error: error.message });
+          return "retry" as const;
+        }
+
+        // 再送しても成功しない操作は破棄
+        outbox.remove(entry.id);
+        log("Dropped outbox entry", {
+          id: entry.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return "dropped" as const;
+      }
+    });
+
+    if (outcome === "delivered") {
+      summary.delivered++;
+    } else if (outcome === "dropped") {
+      summary.dropped++;
+    } else if (outcome === "retry") {
+      blockedJobs.add(entry.jobId);
+    }
+  }
+
+  summary.remaining = outbox.list().length;
+  return summary;
+}
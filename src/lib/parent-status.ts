@@ -0,0 +1,62 @@
+import { getJobDurations } from "./job-timing.js";
+import { ParentStatus } from "./message-blocks.js";
+import { Notifier } from "./notifier.js";
+import { ThreadStore } from "./thread-store.js";
+
+/**
+ * ジョブの状態を親メッセージに反映する（chat.update で再描画）
+ *
+ * スレッドへの投稿が成功した後に呼ぶ補助的な更新のため、失敗しても例外は投げず false を返す
+ * （outbox で再送されると完了通知などが重複するため）。
+ */
+export async function refreshParentMessage(
+  notifier: Notifier,
+  threadStore: ThreadStore,
+  jobId: string,
+  status: ParentStatus,
+  summary?: string
+): Promise<boolean> {
+  const state = threadStore.get(jobId);
+  if (!state?.threadTs) {
+    return false;
+  }
+
+  try {
+    const result = await notifier.updateParentMessage(
+      state.channel,
+      state.threadTs,
+      {
+        status,
+        title: state.title,
+        meta: state.meta,
+        startedAt: state.createdAt,
+        durations: getJobDurations(state),
+        summary,
+        previousStatus: state.parentStatus,
+      },
+      jobId
+    );
+    if (result.ok) {
+      threadStore.updateParentStatus(jobId, status);
+    }
+    return result.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 処理の進行（または待機からの再開）を親メッセージに反映する
+ * 既に進行中と反映済みの場合は何もしない
+ */
+export async function resumeParentMessage(
+  notifier: Notifier,
+  threadStore: ThreadStore,
+  jobId: string
+): Promise<boolean> {
+  const parentStatus = threadStore.get(jobId)?.parentStatus;
+  if (parentStatus !== undefined && parentStatus !== "waiting") {
+    return false;
+  }
+  return refreshParentMessage(notifier, threadStore, jobId, "in_progress");
+}
@@ -0,0 +1,119 @@
+import { formatDurationShort } from "./duration.js";
+import { localize } from "./locale.js";
+
+// ETA の計算に使う進捗履歴の最大件数（ジョブごと）
+export const PROGRESS_HISTORY_LIMIT = 20;
+
+const PROGRESS_BAR_WIDTH = 20;
+
+const MESSAGES = {
+  en: {
+    currentAndTotal: "Specify both current and total",
+    invalidCurrent: "current must be a number of 0 or more",
+    invalidTotal: "total must be a positive number",
+    eta: (duration: string) => `about ${duration} left`,
+  },
+  ja: {
+    currentAndTotal: "current と total は両方指定してください",
+    invalidCurrent: "current は0以上の数値で指定してください",
+    invalidTotal: "total は正の数値で指定してください",
+    eta: (duration: string) => `残り約 ${duration}`,
+  },
+};
+
+/**
+ * 進捗の記録（ETA の計算用に ThreadState に保存される）
+ */
+export interface ProgressPoint {
+  current: number;
+  total: number;
+  at: string; // ISO 8601
+}
+
+/**
+ * 進捗メッセージに表示する構造化された進捗
+ */
+export interface ProgressInfo {
+  current: number;
+  total: number;
+  unit?: string;
+  etaMs?: number; // 完了までの推定残り時間
+}
+
+/**
+ * current / total の組み合わせを検証（不正な場合はエラーメッセージを返す）
+ */
+export function validateProgress(current?: number, total?: number): string | undefined {
+  if (current === undefined && total === undefined) {
+    return undefined;
+  }
+  if (current === undefined || total === undefined) {
+    return localize(MESSAGES).currentAndTotal;
+  }
+  if (!Number.isFinite(current) || current < 0) {
+    return localize(MESSAGES).invalidCurrent;
+  }
+  if (!Number.isFinite(total) || total <= 0) {
+    return localize(MESSAGES).invalidTotal;
+  }
+  return undefined;
+}
+
+/**
+ * 進捗履歴に記録を追加
+ * total が変わった場合や current が戻った場合は別の処理とみなして履歴をリセットする
+ */
+export function appendProgressPoint(
+  history: ProgressPoint[] | undefined,
+  point: ProgressPoint
+): ProgressPoint[] {
+  const last = history?.[history.length - 1];
+  const base = last && last.total === point.total && last.current <= point.current ? history! : [];
+  return [...base, point].slice(-PROGRESS_HISTORY_LIMIT);
+}
+
+/**
+ * 進捗履歴の最初と最後の記録から処理速度を求め、完了までの残り時間を推定
+ * 記録が足りない場合や進んでいない場合は undefined
+ */
+export function estimateEtaMs(history: ProgressPoint[] | undefined): number | undefined {
+  if (!history || history.length < 2) {
+    return undefined;
+  }
+
+  const first = history[0];
+  const last = history[history.length - 1];
+  const elapsedMs = Date.parse(last.at) - Date.parse(first.at);
+  const done = last.current - first.current;
+  if (!(elapsedMs > 0) || done <= 0 || last.current >= last.total) {
+    return undefined;
+  }
+
+  return ((last.total - last.current) / done) * elapsedMs;
+}
+
+/**
+ * テキストのプログレスバー（例: ██████░░░░░░░░░░░░░░）
+ */
+export function renderProgressBar(
+  current: number,
+  total: number,
+  width: number = PROGRESS_BAR_WIDTH
+): string {
+  const ratio = Math.min(1, Math.max(0, current / total));
+  const filled = Math.round(ratio * width);
+  return "█".repeat(filled) + "░".repeat(width - filled);
+}
+
+/**
+ * 進捗を1行で表示（例: `██████░░░░░░░░░░░░░░` 30% (3/10 resources) · 残り約 5m）
+ */
+export function formatProgress(progress: ProgressInfo): string {
+  const percent = Math.floor(Math.min(1, progress.current / progress.total) * 100);
+  const unitText = progress.unit ? ` ${progress.unit}` : "";
+  const etaText =
+    progress.etaMs !== undefined
+      ? ` · ${localize(MESSAGES).eta(formatDurationShort(progress.etaMs))}`
+      : "";
+  return `\`${renderProgressBar(progress.current, progress.total)}\` ${percent}% (${progress.current}/${progress.total}${unitText})${etaText}`;
+}
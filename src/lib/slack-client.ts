@@ -1,155 +1,206 @@
-import { WebClient } from "@slack/web-api";
-
-export interface SlackConfig {
+import {
+  ChatPostMessageArguments,
+  ChatPostMessageResponse,
+  ChatUpdateArguments,
+  ChatUpdateResponse,
+  CodedError,
+  ErrorCode,
+  WebClient,
+} from "@slack/web-api";
+import { appendDryRunRecord } from "./dry-run.js";
+import { GitChangeSummary } from "./git-summary.js";
+import { JobDurations } from "./job-timing.js";
+import { MessageLevel, ParentStatus } from "./message-blocks.js";
+import {
+  BaseNotifier,
+  compareTs,
+  FileAttachment,
+  NotifierConfig,
+  ParentMessageUpdate,
+  PostResult,
+  ReplyResult,
+  RetryableNotifierError,
+  syntheticTs,
+  ThreadRepliesResult,
+  UploadResult,
+} from "./notifier.js";
+import { ProgressInfo } from "./progress.js";
+import {
+  DEFAULT_STATUS_REACTIONS,
+  ParentStatusStyle,
+  StatusReactions,
+} from "./status-reactions.js";
+
+export type {
+  FileAttachment,
+  PostResult,
+  ReplyResult,
+  ThreadRepliesResult,
+  ThreadReply,
+  UploadResult,
+  WaitingNotification,
+} from "./notifier.js";
+
+export interface SlackConfig extends NotifierConfig {
   botToken: string;
-  defaultChannel: string;
-  mentionUserIds?: string[];
-  mentionGroupId?: string;
-  postPrefix?: string;
-  useChannelMention?: boolean; // @channel をデフォルトで使用するか
-}
-
-export interface PostResult {
-  ok: boolean;
-  channel: string;
-  ts: string;
-  permalink?: string;
-}
-
-export interface ReplyResult {
-  ok: boolean;
-  ts?: string;
+  apiUrl?: string; // Slack Web API のベースURL（fake-slack 等に向ける場合）
+  dryRunPath?: string; // 指定時はAPIを呼ばずにこのJSONLファイルへ記録
+  failFast?: boolean; // WebClient 内部での再試行・レート制限待ちを行わない（outbox で再送する場合）
+  parentStatusStyle?: ParentStatusStyle; // 親メッセージへの状態の反映方法（デフォルト: edit）
+  statusReactions?: Partial<StatusReactions>; // 状態ごとのリアクション名（未指定はデフォルト）
 }
 
-export interface WaitingNotification {
-  jobId: string;
-  timeout: NodeJS.Timeout;
-  notified: boolean;
+// 一時的な障害を示す Slack API のエラーコード
+const RETRYABLE_PLATFORM_ERRORS = new Set([
+  "ratelimited",
+  "internal_error",
+  "fatal_error",
+  "service_unavailable",
+  "request_timeout",
+]);
+
+/**
+ * WebClient のエラーを再試行可能かどうかで分類
+ */
+function toNotifierError(error: unknown): unknown {
+  const coded = error as Partial<CodedError> & {
+    retryAfter?: number;
+    statusCode?: number;
+    data?: { error?: string };
+  };
+
+  switch (coded.code) {
+    case ErrorCode.RateLimitedError:
+      return new RetryableNotifierError(
+        "Slack API rate limited",
+        coded.retryAfter !== undefined ? coded.retryAfter * 1000 : undefined,
+        { cause: error }
+      );
+    case ErrorCode.RequestError:
+      return new RetryableNotifierError(`Slack API request failed: ${coded.message}`, undefined, {
+        cause: error,
+      });
+    case ErrorCode.HTTPError:
+      if (coded.statusCode !== undefined && coded.statusCode >= 500) {
+        return new RetryableNotifierError(`Slack API HTTP ${coded.statusCode}`, undefined, {
+          cause: error,
+        });
+      }
+      return error;
+    case ErrorCode.PlatformError:
+      if (coded.data?.error && RETRYABLE_PLATFORM_ERRORS.has(coded.data.error)) {
+        return new RetryableNotifierError(`Slack API error: ${coded.data.error}`, undefined, {
+          cause: error,
+        });
+      }
+      return error;
+    default:
+      return error;
+  }
 }
 
-export class SlackClient {
+/**
+ * Bot Token (chat.postMessage / chat.update) を使う通知バックエンド
+ */
+export class SlackClient extends BaseNotifier {
   private client: WebClient;
-  private config: SlackConfig;
-  private waitingNotifications: Map<string, WaitingNotification> = new Map();
-  private defaultWaitingTimeoutMs: number = 30000; // 30秒
+  private dryRunPath?: string;
+  private parentStatusStyle: ParentStatusStyle;
+  private statusReactions: StatusReactions;
+  private selfIdentity?: Promise<{ userId?: string; botId?: string }>;
 
   constructor(config: SlackConfig) {
-    this.config = config;
-    this.client = new WebClient(config.botToken);
-  }
-
-  /**
-   * 権限確認待ち状態の監視を開始
-   * 指定時間後に応答がない場合、Slackに「確認待ち」通知を送信
-   */
-  startWaitingMonitor(
-    jobId: string,
-    channel: string,
-    threadTs: string,
-    timeoutMs?: number
-  ): void {
-    // 既存の監視があればキャンセル
-    this.cancelWaitingMonitor(jobId);
-
-    const timeout = setTimeout(async () => {
-      const notification = this.waitingNotifications.get(jobId);
-      if (notification && !notification.notified) {
-        notification.notified = true;
-        await this.postThreadReply(
-          channel,
-          threadTs,
-          "⏸️ 処理が一時停止しています（権限確認やユーザー入力待ちの可能性があります）",
-          "warn"
-        );
-      }
-    }, timeoutMs || this.defaultWaitingTimeoutMs);
-
-    this.waitingNotifications.set(jobId, {
-      jobId,
-      timeout,
-      notified: false,
+    super(config);
+    this.client = new WebClient(config.botToken, {
+      slackApiUrl: config.apiUrl,
+      ...(config.failFast
+        ? { retryConfig: { retries: 0 }, rejectRateLimitedCalls: true }
+        : {}),
     });
+    this.dryRunPath = config.dryRunPath;
+    this.parentStatusStyle = config.parentStatusStyle ?? "edit";
+    this.statusReactions = { ...DEFAULT_STATUS_REACTIONS, ...config.statusReactions };
   }
 
-  /**
-   * 権限確認待ち状態の監視をキャンセル
-   */
-  cancelWaitingMonitor(jobId: string): void {
-    const notification = this.waitingNotifications.get(jobId);
-    if (notification) {
-      clearTimeout(notification.timeout);
-      this.waitingNotifications.delete(jobId);
+  private async postMessage(
+    args: ChatPostMessageArguments
+  ): Promise<ChatPostMessageResponse> {
+    if (this.dryRunPath) {
+      const ts = syntheticTs();
+      appendDryRunRecord(this.dryRunPath, "chat.postMessage", args, ts);
+      return { ok: true, channel: args.channel, ts };
+    }
+    try {
+      return await this.client.chat.postMessage(args);
+    } catch (error) {
+      throw toNotifierError(error);
     }
   }
 
-  /**
-   * 監視が通知済みかどうか確認
-   */
-  wasWaitingNotified(jobId: string): boolean {
-    const notification = this.waitingNotifications.get(jobId);
-    return notification?.notified ?? false;
+  private async updateMessage(
+    args: ChatUpdateArguments
+  ): Promise<ChatUpdateResponse> {
+    if (this.dryRunPath) {
+      appendDryRunRecord(this.dryRunPath, "chat.update", args, args.ts);
+      return { ok: true, channel: args.channel, ts: args.ts };
+    }
+    try {
+      return await this.client.chat.update(args);
+    } catch (error) {
+      throw toNotifierError(error);
+    }
   }
 
-  private formatPrefix(text: string): string {
-    if (this.config.postPrefix) {
-      return `${this.config.postPrefix} ${text}`;
+  private async getPermalink(
+    channel: string,
+    messageTs: string
+  ): Promise<string | undefined> {
+    if (this.dryRunPath) {
+      return `https://dry-run.slack.invalid/archives/${channel}/p${messageTs.replace(".", "")}`;
     }
-    return text;
+    const linkResult = await this.client.chat.getPermalink({
+      channel,
+      message_ts: messageTs,
+    });
+    return linkResult.permalink;
   }
 
-  private formatMention(): string {
-    const mentions: string[] = [];
-
-    // ユーザーIDまたはグループIDが指定されている場合はそちらを優先
-    if (this.config.mentionUserIds && this.config.mentionUserIds.length > 0) {
-      mentions.push(
-        ...this.config.mentionUserIds.map((id) => `<@${id}>`)
+  /**
+   * Bot 自身のユーザーID / Bot ID（自分の投稿を除外するため、auth.test の結果をキャッシュ）
+   */
+  private getSelfIdentity(): Promise<{ userId?: string; botId?: string }> {
+    if (!this.selfIdentity) {
+      this.selfIdentity = this.client.auth.test().then(
+        (result) => ({ userId: result.user_id, botId: result.bot_id }),
+        (error) => {
+          this.selfIdentity = undefined;
+          throw toNotifierError(error);
+        }
       );
     }
-
-    if (this.config.mentionGroupId) {
-      mentions.push(`<!subteam^${this.config.mentionGroupId}>`);
-    }
-
-    // 個別メンション先が指定されていない場合は @channel を使用（デフォルト動作）
-    if (mentions.length === 0 && this.config.useChannelMention !== false) {
-      return "<!channel>";
-    }
-
-    return mentions.length > 0 ? mentions.join(" ") : "";
+    return this.selfIdentity;
   }
 
   async postParentMessage(
     channel: string,
     title: string,
     meta?: Record<string, unknown>,
-    mention: boolean = true
+    mention: boolean = true,
+    jobId?: string
   ): Promise<PostResult> {
-    const metaText = meta
-      ? Object.entries(meta)
-          .map(([k, v]) => `• ${k}: ${v}`)
-          .join("\n")
-      : "";
-
-    const mentionText = mention ? this.formatMention() : "";
-    const text = this.formatPrefix(
-      `🚀 *Started:* ${title}${metaText ? `\n${metaText}` : ""}${mentionText ? `\n\n${mentionText}` : ""}`
-    );
+    const { text, blocks } = this.renderParent(title, meta, { requested: mention, channel }, jobId);
 
-    const result = await this.client.chat.postMessage({
+    const result = await this.postMessage({
       channel,
       text,
+      blocks,
       mrkdwn: true,
     });
 
     let permalink: string | undefined;
     if (result.ok && result.ts) {
       try {
-        const linkResult = await this.client.chat.getPermalink({
-          channel: result.channel as string,
-          message_ts: result.ts,
-        });
-        permalink = linkResult.permalink;
+        permalink = await this.getPermalink(result.channel as string, result.ts);
       } catch {
         // permalink is optional
       }
@@ -167,18 +218,23 @@ export class SlackClient {
     channel: string,
     threadTs: string,
     message: string,
-    level: "info" | "warn" | "debug" = "info",
-    mention: boolean = false
+    level: MessageLevel = "info",
+    mention: boolean = false,
+    jobId?: string
   ): Promise<ReplyResult> {
-    const emoji =
-      level === "warn" ? "⚠️" : level === "debug" ? "🔍" : "⏳";
-    const mentionText = mention ? this.formatMention() : "";
-    const text = `${emoji} ${message}${mentionText ? `\n\n${mentionText}` : ""}`;
+    const { text, blocks } = this.renderReply(
+      message,
+      level,
+      { requested: mention, channel },
+      undefined,
+      jobId
+    );
 
-    const result = await this.client.chat.postMessage({
+    const result = await this.postMessage({
       channel,
       thread_ts: threadTs,
       text,
+      blocks,
       mrkdwn: true,
     });
 
@@ -195,21 +251,27 @@ export class SlackClient {
     channel: string,
     threadTs: string,
     message: string,
-    level: "info" | "warn" | "debug" = "info",
+    level: MessageLevel = "info",
     mention: boolean = false,
-    messageTs?: string
+    messageTs?: string,
+    progress?: ProgressInfo,
+    jobId?: string
   ): Promise<ReplyResult> {
-    const emoji =
-      level === "warn" ? "⚠️" : level === "debug" ? "🔍" : "⏳";
-    const mentionText = mention ? this.formatMention() : "";
-    const text = `${emoji} ${message}${mentionText ? `\n\n${mentionText}` : ""}`;
+    const { text, blocks } = this.renderReply(
+      message,
+      level,
+      { requested: mention, channel },
+      progress,
+      jobId
+    );
 
     if (messageTs) {
       // 既存メッセージを更新
-      const result = await this.client.chat.update({
+      const result = await this.updateMessage({
         channel,
         ts: messageTs,
         text,
+        blocks,
       });
 
       return {
@@ -218,10 +280,11 @@ export class SlackClient {
       };
     } else {
       // 新規投稿
-      const result = await this.client.chat.postMessage({
+      const result = await this.postMessage({
         channel,
         thread_ts: threadTs,
         text,
+        blocks,
         mrkdwn: true,
       });
 
@@ -238,23 +301,26 @@ export class SlackClient {
     title: string,
     summary?: string,
     nextSuggestions?: string[],
-    mention: boolean = true
+    mention: boolean = true,
+    jobId?: string,
+    durations?: JobDurations,
+    gitChanges?: GitChangeSummary
   ): Promise<ReplyResult> {
-    const mentionText = mention ? this.formatMention() : "";
-    const summaryText = summary ? `\n${summary}` : "";
-    const suggestionsText =
-      nextSuggestions && nextSuggestions.length > 0
-        ? `\n\n*次の候補:*\n${nextSuggestions.map((s) => `• ${s}`).join("\n")}`
-        : "";
-
-    const text = this.formatPrefix(
-      `✅ *Done:* ${title}${summaryText}${suggestionsText}${mentionText ? `\n\n${mentionText}` : ""}`
+    const { text, blocks } = this.renderComplete(
+      title,
+      summary,
+      nextSuggestions,
+      { requested: mention, channel },
+      jobId,
+      durations,
+      gitChanges
     );
 
-    const result = await this.client.chat.postMessage({
+    const result = await this.postMessage({
       channel,
       thread_ts: threadTs,
       text,
+      blocks,
       mrkdwn: true,
     });
 
@@ -270,19 +336,24 @@ export class SlackClient {
     title: string,
     errorSummary: string,
     logsHint?: string,
-    mention: boolean = true
+    mention: boolean = true,
+    jobId?: string,
+    durations?: JobDurations
   ): Promise<ReplyResult> {
-    const mentionText = mention ? this.formatMention() : "";
-    const logsText = logsHint ? `\n\n*ログ:* ${logsHint}` : "";
-
-    const text = this.formatPrefix(
-      `❌ *Failed:* ${title}\n${errorSummary}${logsText}${mentionText ? `\n\n${mentionText}` : ""}`
+    const { text, blocks } = this.renderFail(
+      title,
+      errorSummary,
+      logsHint,
+      { requested: mention, channel },
+      jobId,
+      durations
     );
 
-    const result = await this.client.chat.postMessage({
+    const result = await this.postMessage({
       channel,
       thread_ts: threadTs,
       text,
+      blocks,
       mrkdwn: true,
     });
 
@@ -298,20 +369,23 @@ export class SlackClient {
     title: string,
     reason: string,
     mention: boolean = true,
-    messageTs?: string
+    messageTs?: string,
+    jobId?: string
   ): Promise<ReplyResult> {
-    const mentionText = mention ? this.formatMention() : "";
-
-    const text = this.formatPrefix(
-      `⏸️ *Waiting:* ${title}\n${reason}${mentionText ? `\n\n${mentionText}` : ""}`
+    const { text, blocks } = this.renderWaiting(
+      title,
+      reason,
+      { requested: mention, channel },
+      jobId
     );
 
     if (messageTs) {
       // 既存メッセージを更新
-      const result = await this.client.chat.update({
+      const result = await this.updateMessage({
         channel,
         ts: messageTs,
         text,
+        blocks,
       });
 
       return {
@@ -320,10 +394,11 @@ export class SlackClient {
       };
     } else {
       // 新規投稿
-      const result = await this.client.chat.postMessage({
+      const result = await this.postMessage({
         channel,
         thread_ts: threadTs,
         text,
+        blocks,
         mrkdwn: true,
       });
 
@@ -334,7 +409,208 @@ export class SlackClient {
     }
   }
 
-  getDefaultChannel(): string {
-    return this.config.defaultChannel;
+  /**
+   * 親メッセージにジョブの状態を反映（parentStatusStyle に応じて書き換え・リアクションの付け替え）
+   */
+  async updateParentMessage(
+    channel: string,
+    threadTs: string,
+    update: ParentMessageUpdate,
+    jobId?: string
+  ): Promise<ReplyResult> {
+    const style = this.parentStatusStyle;
+    let ok = true;
+
+    // 開始時の表示から変わらない場合は書き換え不要
+    const unchanged = update.status === "in_progress" && update.previousStatus === undefined;
+    if ((style === "edit" || style === "both") && !unchanged) {
+      const { text, blocks } = this.renderParentStatus(update, jobId);
+      const result = await this.updateMessage({
+        channel,
+        ts: threadTs,
+        text,
+        blocks,
+      });
+      ok = result.ok ?? false;
+    }
+
+    if (style === "reactions" || style === "both") {
+      await this.swapStatusReaction(channel, threadTs, update.previousStatus, update.status);
+    }
+
+    return { ok, ts: threadTs };
+  }
+
+  /**
+   * 前の状態のリアクションを外し、新しい状態のリアクションを付ける
+   */
+  private async swapStatusReaction(
+    channel: string,
+    ts: string,
+    previous: ParentStatus | undefined,
+    next: ParentStatus
+  ): Promise<void> {
+    const previousName = previous ? this.statusReactions[previous] : undefined;
+    const nextName = this.statusReactions[next];
+
+    if (previousName && previousName !== nextName) {
+      await this.callReaction("remove", channel, ts, previousName);
+    }
+    await this.callReaction("add", channel, ts, nextName);
+  }
+
+  /**
+   * リアクションは補助的な表示のため、失敗（already_reacted / no_reaction / missing_scope など）は無視する
+   */
+  private async callReaction(
+    action: "add" | "remove",
+    channel: string,
+    timestamp: string,
+    name: string
+  ): Promise<void> {
+    const args = { channel, timestamp, name };
+    if (this.dryRunPath) {
+      appendDryRunRecord(this.dryRunPath, `reactions.${action}`, args, timestamp);
+      return;
+    }
+    try {
+      if (action === "add") {
+        await this.client.reactions.add(args);
+      } else {
+        await this.client.reactions.remove(args);
+      }
+    } catch {
+      // 無視
+    }
+  }
+
+  async postQuestion(
+    channel: string,
+    threadTs: string,
+    title: string,
+    question: string,
+    choices?: string[],
+    mention: boolean = true,
+    jobId?: string
+  ): Promise<ReplyResult> {
+    const { text, blocks } = this.renderQuestion(
+      title,
+      question,
+      choices,
+      { requested: mention, channel },
+      jobId
+    );
+    const result = await this.postMessage({
+      channel,
+      thread_ts: threadTs,
+      text,
+      blocks,
+      mrkdwn: true,
+    });
+
+    return {
+      ok: result.ok ?? false,
+      ts: result.ts,
+    };
+  }
+
+  /**
+   * conversations.replies でスレッドへの返信を取得し、Bot 自身の投稿を除いて返す
+   * oldestTs を指定した場合はそれより新しい返信のみ
+   */
+  async readThreadReplies(
+    channel: string,
+    threadTs: string,
+    oldestTs?: string
+  ): Promise<ThreadRepliesResult> {
+    if (this.dryRunPath) {
+      return { replies: [] };
+    }
+
+    const self = await this.getSelfIdentity();
+    const replies: ThreadRepliesResult["replies"] = [];
+    let latestTs: string | undefined;
+    let cursor: string | undefined;
+
+    try {
+      do {
+        const page = await this.client.conversations.replies({
+          channel,
+          ts: threadTs,
+          oldest: oldestTs,
+          inclusive: false,
+          limit: 200,
+          cursor,
+        });
+
+        for (const message of page.messages ?? []) {
+          // 親メッセージは oldest に関わらず常に含まれる
+          if (!message.ts || message.ts === threadTs) {
+            continue;
+          }
+          if (oldestTs && compareTs(message.ts, oldestTs) <= 0) {
+            continue;
+          }
+          if (!latestTs || compareTs(message.ts, latestTs) > 0) {
+            latestTs = message.ts;
+          }
+          if (
+            (self.botId && message.bot_id === self.botId) ||
+            (self.userId && message.user === self.userId)
+          ) {
+            continue;
+          }
+          replies.push({ user: message.user, text: message.text ?? "", ts: message.ts });
+        }
+
+        cursor = page.response_metadata?.next_cursor || undefined;
+      } while (cursor);
+    } catch (error) {
+      throw toNotifierError(error);
+    }
+
+    replies.sort((a, b) => compareTs(a.ts, b.ts));
+    return { replies, latestTs };
+  }
+
+  /**
+   * files.uploadV2 でスレッドにファイルを添付
+   * （files.getUploadURLExternal → アップロード先への送信 → files.completeUploadExternal）
+   */
+  async uploadFile(
+    channel: string,
+    threadTs: string,
+    file: FileAttachment
+  ): Promise<UploadResult> {
+    const args = {
+      channel_id: channel,
+      thread_ts: threadTs,
+      filename: file.filename,
+      title: file.title ?? file.filename,
+      initial_comment: file.comment,
+    };
+
+    if (this.dryRunPath) {
+      // ファイルの内容は記録せず、サイズのみ
+      appendDryRunRecord(
+        this.dryRunPath,
+        "files.uploadV2",
+        { ...args, length: file.content.length },
+        threadTs
+      );
+      return { ok: true };
+    }
+
+    try {
+      const result = await this.client.filesUploadV2({ ...args, file: file.content });
+      const uploaded = result.files[0]?.files?.[0];
+      return {
+        ok: result.ok ?? false,
+        fileId: uploaded?.id,
+        permalink: uploaded?.permalink,
+      };
+    } catch (error) {
+      throw toNotifierError(error);
+    }
   }
 }
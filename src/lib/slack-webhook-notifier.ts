@@ -0,0 +1,177 @@
+import { GitChangeSummary } from "./git-summary.js";
+import { JobDurations } from "./job-timing.js";
+import { MessageLevel } from "./message-blocks.js";
+import {
+  BaseNotifier,
+  NotifierConfig,
+  PostResult,
+  RenderedMessage,
+  parseRetryAfter,
+  ReplyResult,
+  RetryableNotifierError,
+  syntheticTs,
+} from "./notifier.js";
+import { ProgressInfo } from "./progress.js";
+
+export interface SlackWebhookConfig extends NotifierConfig {
+  webhookUrl: string;
+}
+
+/**
+ * Slack Incoming Webhook を使う通知バックエンド
+ *
+ * Incoming Webhook はスレッド返信・メッセージ更新・ts の取得に対応していないため、
+ * すべての通知をチャンネルへの新規投稿として送信し、擬似 ts を返す。
+ * 投稿先チャンネルは Webhook 側の設定で決まる。
+ */
+export class SlackWebhookNotifier extends BaseNotifier {
+  private webhookUrl: string;
+
+  constructor(config: SlackWebhookConfig) {
+    super(config);
+    this.webhookUrl = config.webhookUrl;
+  }
+
+  private async send(message: RenderedMessage): Promise<boolean> {
+    let response: Response;
+    try {
+      response = await fetch(this.webhookUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: message.text, blocks: message.blocks }),
+      });
+    } catch (error) {
+      throw new RetryableNotifierError(`Slack webhook request failed: ${String(error)}`, undefined, {
+        cause: error,
+      });
+    }
+
+    if (response.status === 429 || response.status >= 500) {
+      throw new RetryableNotifierError(
+        `Slack webhook HTTP ${response.status}`,
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
+    }
+
+    return response.ok;
+  }
+
+  async postParentMessage(
+    channel: string,
+    title: string,
+    meta?: Record<string, unknown>,
+    mention: boolean = true,
+    jobId?: string
+  ): Promise<PostResult> {
+    const ok = await this.send(
+      this.renderParent(title, meta, { requested: mention, channel }, jobId)
+    );
+
+    return {
+      ok,
+      channel,
+      ts: syntheticTs(),
+    };
+  }
+
+  async postThreadReply(
+    channel: string,
+    _threadTs: string,
+    message: string,
+    level: MessageLevel = "info",
+    mention: boolean = false,
+    jobId?: string
+  ): Promise<ReplyResult> {
+    const ok = await this.send(
+      this.renderReply(message, level, { requested: mention, channel }, undefined, jobId)
+    );
+
+    return { ok, ts: syntheticTs() };
+  }
+
+  /**
+   * Incoming Webhook では更新できないため、常に新規投稿する
+   */
+  async upsertThreadReply(
+    channel: string,
+    _threadTs: string,
+    message: string,
+    level: MessageLevel = "info",
+    mention: boolean = false,
+    _messageTs?: string,
+    progress?: ProgressInfo,
+    jobId?: string
+  ): Promise<ReplyResult> {
+    const ok = await this.send(
+      this.renderReply(message, level, { requested: mention, channel }, progress, jobId)
+    );
+
+    return { ok, ts: syntheticTs() };
+  }
+
+  async postComplete(
+    channel: string,
+    _threadTs: string,
+    title: string,
+    summary?: string,
+    nextSuggestions?: string[],
+    mention: boolean = true,
+    jobId?: string,
+    durations?: JobDurations,
+    gitChanges?: GitChangeSummary
+  ): Promise<ReplyResult> {
+    const ok = await this.send(
+      this.renderComplete(
+        title,
+        summary,
+        nextSuggestions,
+        { requested: mention, channel },
+        jobId,
+        durations,
+        gitChanges
+      )
+    );
+
+    return { ok, ts: syntheticTs() };
+  }
+
+  async postFail(
+    channel: string,
+    _threadTs: string,
+    title: string,
+    errorSummary: string,
+    logsHint?: string,
+    mention: boolean = true,
+    jobId?: string,
+    durations?: JobDurations
+  ): Promise<ReplyResult> {
+    const ok = await this.send(
+      this.renderFail(
+        title,
+        errorSummary,
+        logsHint,
+        { requested: mention, channel },
+        jobId,
+        durations
+      )
+    );
+
+    return { ok, ts: syntheticTs() };
+  }
+
+  async postWaiting(
+    channel: string,
+    _threadTs: string,
+    title: string,
+    reason: string,
+    mention: boolean = true,
+    _messageTs?: string,
+    jobId?: string
+  ): Promise<ReplyResult> {
+    const ok = await this.send(
+      this.renderWaiting(title, reason, { requested: mention, channel }, jobId)
+    );
+
+    return { ok, ts: syntheticTs() };
+  }
+}
@@ -0,0 +1,175 @@
+import { existsSync, mkdirSync } from "fs";
+import { createRequire } from "module";
+import { dirname } from "path";
+import type BetterSqlite3 from "better-sqlite3";
+import { localize } from "./locale.js";
+import type { ThreadState } from "./thread-store.js";
+import { ThreadMutator, ThreadQuery, ThreadStorage } from "./thread-storage.js";
+
+const require = createRequire(import.meta.url);
+
+const MESSAGES = {
+  en: {
+    missingDriver: "The SQLite backend requires better-sqlite3 (npm install better-sqlite3)",
+  },
+  ja: {
+    missingDriver: "SQLite バックエンドには better-sqlite3 が必要です（npm install better-sqlite3）",
+  },
+};
+
+interface ThreadRow {
+  data: string;
+}
+
+/**
+ * better-sqlite3 は optionalDependencies のため、SQLite バックエンド選択時にのみ読み込む
+ */
+function loadDatabase(): typeof BetterSqlite3 {
+  try {
+    return require("better-sqlite3") as typeof BetterSqlite3;
+  } catch (error) {
+    throw new Error(localize(MESSAGES).missingDriver, { cause: error });
+  }
+}
+
+/**
+ * ジョブごとに 1 行として SQLite に保存するバックエンド
+ *
+ * 更新は対象の行のみを書き換えるため、ジョブ数が増えても PostToolUse ごとのコストは一定。
+ * 検索用に job_id / status / updated_at を列として持ち、状態全体は data 列に JSON で保存する
+ * （ThreadState にフィールドが増えてもスキーマ変更が不要）。
+ */
+export class SqliteThreadStorage implements ThreadStorage {
+  readonly type = "sqlite" as const;
+  readonly path: string;
+  private db: BetterSqlite3.Database;
+  private updateTransaction: BetterSqlite3.Transaction<
+    (jobId: string, mutate: ThreadMutator) => ThreadState | undefined
+  >;
+
+  constructor(path: string) {
+    this.path = path;
+
+    const dir = dirname(path);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    const Database = loadDatabase();
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("busy_timeout = 5000");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS threads (
+        job_id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS threads_status ON threads (status);
+      CREATE INDEX IF NOT EXISTS threads_updated_at ON threads (updated_at);
+    `);
+
+    this.updateTransaction = this.db.transaction((jobId: string, mutate: ThreadMutator) => {
+      const current = this.get(jobId);
+      const next = mutate(current);
+      if (!next) {
+        return current;
+      }
+
+      this.db
+        .prepare(
+          `INSERT INTO threads (job_id, status, created_at, updated_at, data)
+           VALUES (@jobId, @status, @createdAt, @updatedAt, @data)
+           ON CONFLICT (job_id) DO UPDATE SET
+             status = excluded.status,
+             updated_at = excluded.updated_at,
+             data = excluded.data`
+        )
+        .run({
+          jobId,
+          status: next.status,
+          createdAt: next.createdAt,
+          updatedAt: next.updatedAt,
+          data: JSON.stringify(next),
+        });
+      return next;
+    });
+  }
+
+  get(jobId: string): ThreadState | undefined {
+    const row = this.db
+      .prepare("SELECT data FROM threads WHERE job_id = ?")
+      .get(jobId) as ThreadRow | undefined;
+    return row ? (JSON.parse(row.data) as ThreadState) : undefined;
+  }
+
+  private where(query: ThreadQuery): { clause: string; params: string[] } {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (query.status !== undefined) {
+      const statuses = Array.isArray(query.status) ? query.status : [query.status];
+      conditions.push(`status IN (${statuses.map(() => "?").join(", ")})`);
+      params.push(...statuses);
+    }
+    if (query.channel !== undefined) {
+      conditions.push("json_extract(data, '$.channel') = ?");
+      params.push(query.channel);
+    }
+    if (query.updatedBefore !== undefined) {
+      conditions.push("updated_at < ?");
+      params.push(query.updatedBefore);
+    }
+    if (query.updatedAfter !== undefined) {
+      conditions.push("updated_at >= ?");
+      params.push(query.updatedAfter);
+    }
+    if (query.placeholder !== undefined) {
+      conditions.push(
+        query.placeholder
+          ? "COALESCE(json_extract(data, '$.threadTs'), '') = ''"
+          : "COALESCE(json_extract(data, '$.threadTs'), '') <> ''"
+      );
+    }
+
+    const clause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    return { clause, params };
+  }
+
+  list(query: ThreadQuery = {}): ThreadState[] {
+    const { clause, params } = this.where(query);
+    const rows = this.db
+      .prepare(`SELECT data FROM threads ${clause} ORDER BY created_at`)
+      .all(...params) as ThreadRow[];
+    return rows.map((row) => JSON.parse(row.data) as ThreadState);
+  }
+
+  /**
+   * BEGIN IMMEDIATE で書き込みロックを取得してから読み込むため、他プロセスの更新と競合しない
+   */
+  update(jobId: string, mutate: ThreadMutator): ThreadState | undefined {
+    return this.updateTransaction.immediate(jobId, mutate);
+  }
+
+  delete(jobId: string): boolean {
+    return this.db.prepare("DELETE FROM threads WHERE job_id = ?").run(jobId).changes > 0;
+  }
+
+  deleteMatching(query: ThreadQuery): ThreadState[] {
+    const { clause, params } = this.where(query);
+    const rows = this.db
+      .prepare(`DELETE FROM threads ${clause} RETURNING data`)
+      .all(...params) as ThreadRow[];
+    return rows.map((row) => JSON.parse(row.data) as ThreadState);
+  }
+
+  refresh(): void {
+    // 常にデータベースから読み込むため不要
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,58 @@
+import { localize } from "./locale.js";
+import { ParentStatus } from "./message-blocks.js";
+
+/**
+ * 親メッセージにジョブの状態をどう反映するか
+ * - edit: 親メッセージを書き換える（デフォルト。リアクションは付けない）
+ * - reactions: 親メッセージにリアクションを付け替える（投稿時に進行中のリアクションを付ける）
+ * - both: 両方
+ * - none: 反映しない
+ */
+export type ParentStatusStyle = "edit" | "reactions" | "both" | "none";
+
+export const PARENT_STATUS_STYLES: ParentStatusStyle[] = ["edit", "reactions", "both", "none"];
+
+export type StatusReactions = Record<ParentStatus, string>;
+
+export const DEFAULT_STATUS_REACTIONS: StatusReactions = {
+  in_progress: "eyes",
+  waiting: "double_vertical_bar",
+  completed: "white_check_mark",
+  failed: "x",
+};
+
+const STATUS_KEYS = Object.keys(DEFAULT_STATUS_REACTIONS) as ParentStatus[];
+
+const MESSAGES = {
+  en: {
+    invalidReaction: (entry: string, keys: string[]) =>
+      `Invalid reaction: ${entry} (expected <status>=<emoji name> with status one of ${keys.join(", ")})`,
+  },
+  ja: {
+    invalidReaction: (entry: string, keys: string[]) =>
+      `リアクションの指定が不正です: ${entry}（${keys.join(", ")} のいずれかを <状態>=<絵文字名> で指定）`,
+  },
+};
+
+export function isParentStatusStyle(value: string): value is ParentStatusStyle {
+  return (PARENT_STATUS_STYLES as string[]).includes(value);
+}
+
+/**
+ * "completed=tada,failed=rotating_light" 形式のリアクション名の指定を解析
+ * 指定のない状態はデフォルトのリアクションを使用する。不正な形式の場合はエラー
+ */
+export function parseStatusReactions(value: string): Partial<StatusReactions> {
+  const reactions: Partial<StatusReactions> = {};
+
+  for (const entry of value.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const [key, name] = entry.split("=").map((part) => part.trim());
+    if (!STATUS_KEYS.includes(key as ParentStatus) || !name) {
+      throw new Error(localize(MESSAGES).invalidReaction(entry, STATUS_KEYS));
+    }
+    // ":tada:" のようにコロン付きで指定された場合も受け付ける
+    reactions[key as ParentStatus] = name.replace(/^:|:$/g, "");
+  }
+
+  return reactions;
+}
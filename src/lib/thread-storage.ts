@@ -0,0 +1,137 @@
+import { localize } from "./locale.js";
+import type { JobStatus, ThreadState } from "./thread-store.js";
+
+const MESSAGES = {
+  en: {
+    missingPath: (value: string) => `THREAD_STATE_PATH has no path: ${value}`,
+  },
+  ja: {
+    missingPath: (value: string) => `THREAD_STATE_PATH にパスが指定されていません: ${value}`,
+  },
+};
+
+export type ThreadStorageType = "memory" | "json" | "sqlite";
+
+export interface ThreadStorageLocation {
+  type: ThreadStorageType;
+  path?: string;
+}
+
+export interface ThreadQuery {
+  status?: JobStatus | JobStatus[];
+  channel?: string;
+  updatedBefore?: string; // ISO 8601
+  updatedAfter?: string; // ISO 8601
+  placeholder?: boolean; // true: スレッド未作成（threadTs が空）のジョブのみ
+}
+
+/**
+ * 最新の状態（存在しなければ undefined）を受け取り、保存する新しい状態を返す
+ * undefined を返した場合は変更しない
+ */
+export type ThreadMutator = (current: ThreadState | undefined) => ThreadState | undefined;
+
+/**
+ * ThreadStore の永続化バックエンド
+ * update は他のプロセスによる変更も含めた最新の状態に対して原子的に適用されなければならない
+ */
+export interface ThreadStorage {
+  readonly type: ThreadStorageType;
+  readonly path?: string; // ジョブ単位のロックファイルの配置先にも使用
+  get(jobId: string): ThreadState | undefined;
+  list(query?: ThreadQuery): ThreadState[];
+  update(jobId: string, mutate: ThreadMutator): ThreadState | undefined;
+  delete(jobId: string): boolean;
+  deleteMatching(query: ThreadQuery): ThreadState[]; // 削除したジョブの状態を返す
+  refresh(): void; // キャッシュを持つバックエンドで、他のプロセスによる変更を読み込む
+  close(): void;
+}
+
+/**
+ * THREAD_STATE_PATH のスキームから永続化バックエンドを判定
+ *
+ * - 未指定: メモリのみ
+ * - `sqlite:<path>` / `sqlite://<path>`: SQLite
+ * - `json:<path>` / `file:<path>` / スキームなし: JSON ファイル
+ */
+export function parseThreadStatePath(value?: string): ThreadStorageLocation {
+  if (!value) {
+    return { type: "memory" };
+  }
+
+  const match = value.match(/^(sqlite|json|file):(?:\/\/)?(.*)$/);
+  if (!match) {
+    return { type: "json", path: value };
+  }
+
+  const [, scheme, path] = match;
+  if (!path) {
+    throw new Error(localize(MESSAGES).missingPath(value));
+  }
+  return { type: scheme === "sqlite" ? "sqlite" : "json", path };
+}
+
+export function matchesQuery(state: ThreadState, query: ThreadQuery = {}): boolean {
+  if (query.status !== undefined) {
+    const statuses = Array.isArray(query.status) ? query.status : [query.status];
+    if (!statuses.includes(state.status)) {
+      return false;
+    }
+  }
+  if (query.channel !== undefined && state.channel !== query.channel) {
+    return false;
+  }
+  if (query.updatedBefore !== undefined && !(state.updatedAt < query.updatedBefore)) {
+    return false;
+  }
+  if (query.updatedAfter !== undefined && !(state.updatedAt >= query.updatedAfter)) {
+    return false;
+  }
+  if (query.placeholder !== undefined && query.placeholder !== !state.threadTs) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 永続化しないバックエンド（THREAD_STATE_PATH 未指定時）
+ */
+export class MemoryThreadStorage implements ThreadStorage {
+  readonly type = "memory" as const;
+  private threads: Map<string, ThreadState> = new Map();
+
+  get(jobId: string): ThreadState | undefined {
+    return this.threads.get(jobId);
+  }
+
+  list(query?: ThreadQuery): ThreadState[] {
+    return Array.from(this.threads.values()).filter((state) => matchesQuery(state, query));
+  }
+
+  update(jobId: string, mutate: ThreadMutator): ThreadState | undefined {
+    const current = this.threads.get(jobId);
+    const next = mutate(current ? { ...current } : undefined);
+    if (!next) {
+      return current;
+    }
+
+    this.threads.set(jobId, next);
+    return next;
+  }
+
+  delete(jobId: string): boolean {
+    return this.threads.delete(jobId);
+  }
+
+  deleteMatching(query: ThreadQuery): ThreadState[] {
+    const removed = this.list(query);
+    for (const state of removed) {
+      this.threads.delete(state.jobId);
+    }
+    return removed;
+  }
+
+  refresh(): void {}
+
+  close(): void {}
+}
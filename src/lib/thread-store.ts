@@ -1,81 +1,180 @@
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
-import { dirname } from "path";
+import { createThreadStorage } from "./create-thread-storage.js";
+import { DAY_MS } from "./duration.js";
+import { withFileLock } from "./file-lock.js";
+import { appendJobEvent, JobEvent } from "./job-events.js";
+import type { MessageLevel, ParentStatus } from "./message-blocks.js";
+import { appendProgressPoint, ProgressPoint } from "./progress.js";
+import { ThreadQuery, ThreadStorage } from "./thread-storage.js";
 
 export type JobStatus = "started" | "in_progress" | "completed" | "failed";
 
+export const JOB_STATUSES: JobStatus[] = ["started", "in_progress", "completed", "failed"];
+
 export interface ThreadState {
   jobId: string;
   channel: string;
   threadTs: string;
   title: string;
+  meta?: Record<string, unknown>; // 親メッセージの追加情報（親メッセージの再描画用）
   status: JobStatus;
   createdAt: string;
   updatedAt: string;
   permalink?: string;
   progressMessageTs?: string; // 最新の進捗メッセージのts（上書き用）
+  lastReadReplyTs?: string; // 最後に読み取った返信のts（slack_thread_read_replies のカーソル）
+  progressHistory?: ProgressPoint[]; // 構造化された進捗の履歴（ETA の計算用）
+  parentStatus?: ParentStatus; // 親メッセージに現在表示している状態
+  // 所要時間の記録（ジョブの開始時刻は createdAt）
+  inProgressAt?: string; // 最初に進行中になった時刻
+  waitingSince?: string; // 待機中の場合、待機を開始した時刻
+  waitingMs?: number; // 終了した待機の累計時間
+  finishedAt?: string; // 完了・失敗した時刻
+  events?: JobEvent[]; // イベント履歴（追記のみ。上限を超えた古いものは破棄）
+  startCommit?: string; // 開始時のリポジトリの HEAD（完了時の変更の要約用）
+}
+
+/**
+ * まとめて送信される進捗更新
+ */
+export interface PendingUpdate {
+  messages: string[]; // まとめられたメッセージ（古い順）
+  level: MessageLevel; // 最も重要度の高いレベル
+  mention: boolean; // いずれかの更新でメンションが指定されたか
 }
 
-interface DebounceEntry {
-  message: string;
-  level: "info" | "warn" | "debug";
+export type PendingUpdateSender = (update: PendingUpdate) => Promise<void>;
+
+interface DebounceEntry extends PendingUpdate {
   timeout: NodeJS.Timeout;
+  send: PendingUpdateSender;
+  mergeKey: string;
+}
+
+const LEVEL_SEVERITY: Record<MessageLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+};
+
+function isTerminalStatus(status: JobStatus): boolean {
+  return status === "completed" || status === "failed";
+}
+
+/**
+ * 待機中であれば待機を終了し、待機時間を累計に加える
+ */
+function closeWaiting(state: ThreadState, now: string): void {
+  if (!state.waitingSince) {
+    return;
+  }
+  const elapsedMs = Math.max(0, Date.parse(now) - Date.parse(state.waitingSince));
+  state.waitingMs = (state.waitingMs ?? 0) + elapsedMs;
+  delete state.waitingSince;
+}
+
+export interface RetentionPolicy {
+  terminalDays?: number; // 終了済み（completed / failed）のジョブを保持する日数（0 で無期限）
+  placeholderDays?: number; // スレッド未作成（--silent の遅延初期化待ち）のジョブを保持する日数（0 で無期限）
 }
 
+export const DEFAULT_RETENTION_POLICY: Required<RetentionPolicy> = {
+  terminalDays: 30,
+  placeholderDays: 7,
+};
+
+// Slack への送信を挟むため、ジョブ単位のロックは保持時間を長めに見積もる
+const JOB_LOCK_OPTIONS = { timeoutMs: 60000, staleMs: 30000 };
+
+/**
+ * ジョブの状態を保持するストア
+ *
+ * 永続化は THREAD_STATE_PATH のスキームに応じたバックエンド（JSON ファイル / SQLite）に委譲する。
+ * Claude Code の Hooks のように複数プロセスが同時に更新しても更新が失われないよう、
+ * 変更はすべてバックエンドの read-modify-write（update）で行う。
+ */
 export class ThreadStore {
-  private threads: Map<string, ThreadState> = new Map();
-  private persistPath?: string;
+  private storage: ThreadStorage;
   private debounceMs: number;
   private pendingUpdates: Map<string, DebounceEntry> = new Map();
+  private sendingUpdates: Map<string, Promise<void>> = new Map();
+  private jobLocks: Map<string, Promise<unknown>> = new Map();
 
-  constructor(persistPath?: string, debounceMs: number = 2000) {
-    this.persistPath = persistPath;
+  constructor(persistPath?: string, debounceMs: number = 2000, retention?: RetentionPolicy) {
+    this.storage = createThreadStorage(persistPath);
     this.debounceMs = debounceMs;
 
-    if (persistPath) {
-      this.loadFromDisk();
+    if (retention) {
+      try {
+        this.applyRetention(retention);
+      } catch {
+        // Best effort: 期限切れの削除に失敗しても通知は継続する
+      }
     }
   }
 
-  private loadFromDisk(): void {
-    if (!this.persistPath || !existsSync(this.persistPath)) {
-      return;
-    }
+  private jobLockPath(jobId: string): string {
+    return `${this.storage.path}.${jobId.replace(/[^A-Za-z0-9_-]/g, "_")}.lock`;
+  }
 
-    try {
-      const data = readFileSync(this.persistPath, "utf-8");
-      const parsed = JSON.parse(data) as ThreadState[];
-      for (const state of parsed) {
-        this.threads.set(state.jobId, state);
-      }
-    } catch {
-      // If file is corrupted, start fresh
-    }
+  /**
+   * 他のプロセスによる変更を読み込む
+   */
+  reload(): void {
+    this.storage.refresh();
   }
 
-  private saveToDisk(): void {
-    if (!this.persistPath) {
-      return;
-    }
+  /**
+   * ジョブの状態を read-modify-write で更新
+   * mutate には最新の状態（存在しなければ undefined）が渡される。
+   * 新しい状態を返すと保存し、undefined を返すと変更しない。
+   */
+  update(
+    jobId: string,
+    mutate: (current: ThreadState | undefined) => ThreadState | undefined
+  ): ThreadState | undefined {
+    return this.storage.update(jobId, mutate);
+  }
 
+  /**
+   * ジョブ単位の排他制御の下で処理を実行
+   * 「状態を確認してから Slack に投稿し、結果を保存する」までを他のプロセスと直列化する
+   * （同じジョブの親メッセージの二重投稿や、進捗メッセージ ts の競合を防ぐ）。
+   * ロック取得後に最新の状態を読み込むため、fn 内の get() は他プロセスの変更を反映する。
+   * 同じジョブのロックを fn 内で再取得してはならない。
+   */
+  async withJobLock<T>(jobId: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.jobLocks.get(jobId) ?? Promise.resolve();
+    const run = previous.then(() => {
+      if (!this.storage.path) {
+        return fn();
+      }
+      return withFileLock(
+        this.jobLockPath(jobId),
+        () => {
+          this.storage.refresh();
+          return fn();
+        },
+        JOB_LOCK_OPTIONS
+      );
+    });
+
+    const tail = run.catch(() => {});
+    this.jobLocks.set(jobId, tail);
     try {
-      const dir = dirname(this.persistPath);
-      if (!existsSync(dir)) {
-        mkdirSync(dir, { recursive: true });
+      return await run;
+    } finally {
+      if (this.jobLocks.get(jobId) === tail) {
+        this.jobLocks.delete(jobId);
       }
-
-      const data = JSON.stringify(Array.from(this.threads.values()), null, 2);
-      writeFileSync(this.persistPath, data, "utf-8");
-    } catch {
-      // Best effort persistence
     }
   }
 
   get(jobId: string): ThreadState | undefined {
-    return this.threads.get(jobId);
+    return this.storage.get(jobId);
   }
 
   has(jobId: string): boolean {
-    return this.threads.has(jobId);
+    return this.storage.get(jobId) !== undefined;
   }
 
   create(
@@ -83,7 +182,8 @@ export class ThreadStore {
     channel: string,
     threadTs: string,
     title: string,
-    permalink?: string
+    permalink?: string,
+    meta?: Record<string, unknown>
   ): ThreadState {
     const now = new Date().toISOString();
     const state: ThreadState = {
@@ -91,136 +191,348 @@ export class ThreadStore {
       channel,
       threadTs,
       title,
+      meta,
       status: "started",
       createdAt: now,
       updatedAt: now,
       permalink,
     };
 
-    this.threads.set(jobId, state);
-    this.saveToDisk();
+    this.update(jobId, () => state);
 
     return state;
   }
 
-  updateStatus(jobId: string, status: JobStatus): boolean {
-    const state = this.threads.get(jobId);
-    if (!state) {
-      return false;
-    }
+  /**
+   * 状態が存在しない場合のみ作成（既存の状態は上書きしない）
+   */
+  createIfAbsent(
+    jobId: string,
+    channel: string,
+    threadTs: string,
+    title: string,
+    permalink?: string,
+    meta?: Record<string, unknown>
+  ): { state: ThreadState; created: boolean } {
+    let created = false;
+    const state = this.update(jobId, (current) => {
+      if (current) {
+        return undefined;
+      }
+      created = true;
+      const now = new Date().toISOString();
+      return {
+        jobId,
+        channel,
+        threadTs,
+        title,
+        meta,
+        status: "started",
+        createdAt: now,
+        updatedAt: now,
+        permalink,
+      };
+    }) as ThreadState;
+
+    return { state, created };
+  }
 
-    state.status = status;
-    state.updatedAt = new Date().toISOString();
-    this.saveToDisk();
+  /**
+   * 既存の状態を変更して更新日時を記録（状態がなければ何もしない）
+   */
+  private modify(jobId: string, apply: (state: ThreadState) => void): boolean {
+    let found = false;
+    this.update(jobId, (current) => {
+      if (!current) {
+        return undefined;
+      }
+      found = true;
+      apply(current);
+      current.updatedAt = new Date().toISOString();
+      return current;
+    });
 
-    return true;
+    return found;
   }
 
   /**
-   * スレッドのthread_tsを更新（遅延初期化用）
+   * ジョブの状態を更新し、所要時間の記録を進める
+   * 進行中・終了への遷移は待機の終了とみなす（at: 遷移した時刻。再送時も所要時間がずれないように）
    */
-  updateThreadTs(jobId: string, threadTs: string, permalink?: string): boolean {
-    const state = this.threads.get(jobId);
-    if (!state) {
-      return false;
-    }
+  updateStatus(jobId: string, status: JobStatus, at: string = new Date().toISOString()): boolean {
+    return this.modify(jobId, (state) => {
+      state.status = status;
+      if (status === "in_progress" && !state.inProgressAt) {
+        state.inProgressAt = at;
+      }
+      if (status !== "started") {
+        closeWaiting(state, at);
+      }
+      if (isTerminalStatus(status) && !state.finishedAt) {
+        state.finishedAt = at;
+      }
+    });
+  }
 
-    state.threadTs = threadTs;
-    if (permalink) {
-      state.permalink = permalink;
-    }
-    state.updatedAt = new Date().toISOString();
-    this.saveToDisk();
+  /**
+   * 人の応答待ちを開始（既に待機中なら開始時刻を維持）
+   */
+  startWaiting(jobId: string, at: string = new Date().toISOString()): boolean {
+    return this.modify(jobId, (state) => {
+      if (!state.waitingSince && !state.finishedAt) {
+        state.waitingSince = at;
+      }
+    });
+  }
 
-    return true;
+  /**
+   * 人の応答待ちを終了し、待機時間を累計に加える
+   */
+  endWaiting(jobId: string): boolean {
+    return this.modify(jobId, (state) => {
+      closeWaiting(state, new Date().toISOString());
+    });
   }
 
   /**
-   * 進捗メッセージのtsを更新
+   * スレッドのthread_tsを更新（遅延初期化用）
    */
-  updateProgressMessageTs(jobId: string, messageTs: string): boolean {
-    const state = this.threads.get(jobId);
-    if (!state) {
-      return false;
-    }
+  updateThreadTs(
+    jobId: string,
+    threadTs: string,
+    permalink?: string,
+    meta?: Record<string, unknown>
+  ): boolean {
+    return this.modify(jobId, (state) => {
+      state.threadTs = threadTs;
+      if (permalink) {
+        state.permalink = permalink;
+      }
+      if (meta) {
+        state.meta = meta;
+      }
+    });
+  }
 
-    state.progressMessageTs = messageTs;
-    state.updatedAt = new Date().toISOString();
-    this.saveToDisk();
+  /**
+   * 親メッセージに表示している状態を記録
+   */
+  updateParentStatus(jobId: string, parentStatus: ParentStatus): boolean {
+    return this.modify(jobId, (state) => {
+      state.parentStatus = parentStatus;
+    });
+  }
 
-    return true;
+  /**
+   * 進捗メッセージのtsを更新
+   */
+  updateProgressMessageTs(jobId: string, messageTs: string): boolean {
+    return this.modify(jobId, (state) => {
+      state.progressMessageTs = messageTs;
+    });
   }
 
   /**
    * 進捗メッセージのtsをクリア（新しいメッセージを投稿させる）
    */
   clearProgressMessageTs(jobId: string): boolean {
-    const state = this.threads.get(jobId);
-    if (!state) {
-      return false;
-    }
+    return this.modify(jobId, (state) => {
+      delete state.progressMessageTs;
+    });
+  }
 
-    delete state.progressMessageTs;
-    state.updatedAt = new Date().toISOString();
-    this.saveToDisk();
+  /**
+   * 構造化された進捗を履歴に記録し、記録後の履歴を返す（ジョブがなければ undefined）
+   */
+  recordProgress(
+    jobId: string,
+    current: number,
+    total: number,
+    at: string = new Date().toISOString()
+  ): ProgressPoint[] | undefined {
+    let history: ProgressPoint[] | undefined;
+    this.modify(jobId, (state) => {
+      history = appendProgressPoint(state.progressHistory, { current, total, at });
+      state.progressHistory = history;
+    });
+    return history;
+  }
+
+  /**
+   * イベント履歴に追記（at を省略した場合は現在時刻）
+   */
+  recordEvent(jobId: string, event: Omit<JobEvent, "at"> & { at?: string }): boolean {
+    return this.modify(jobId, (state) => {
+      state.events = appendJobEvent(state.events, {
+        ...event,
+        at: event.at ?? new Date().toISOString(),
+      });
+    });
+  }
+
+  /**
+   * 開始時のリポジトリの HEAD を記録（既に記録済みの場合は上書きしない）
+   */
+  recordStartCommit(jobId: string, commit: string): boolean {
+    return this.modify(jobId, (state) => {
+      state.startCommit ??= commit;
+    });
+  }
 
-    return true;
+  /**
+   * 読み取り済みの返信のtsを更新（次回はこれより新しい返信のみを読み取る）
+   */
+  updateLastReadReplyTs(jobId: string, replyTs: string): boolean {
+    return this.modify(jobId, (state) => {
+      state.lastReadReplyTs = replyTs;
+    });
   }
 
   /**
    * 進捗メッセージのtsを取得
    */
   getProgressMessageTs(jobId: string): string | undefined {
-    const state = this.threads.get(jobId);
+    const state = this.storage.get(jobId);
     return state?.progressMessageTs;
   }
 
   isTerminal(jobId: string): boolean {
-    const state = this.threads.get(jobId);
+    const state = this.storage.get(jobId);
     if (!state) {
       return false;
     }
-    return state.status === "completed" || state.status === "failed";
+    return isTerminalStatus(state.status);
   }
 
+  /**
+   * 進捗更新を debounceMs の間まとめる
+   * 最初の更新から debounceMs 後に、それまでの更新をまとめて1回だけ send を呼ぶ
+   * （send は最後に登録されたものを使用。送信失敗は send 側で扱うこと）
+   * mergeKey が異なる更新（上書きの有無など送り方が違うもの）はまとめず、先の更新を送信してから新たにまとめ始める
+   */
   scheduleUpdate(
     jobId: string,
     message: string,
-    level: "info" | "warn" | "debug",
-    callback: (msg: string, lvl: "info" | "warn" | "debug") => Promise<void>
+    level: MessageLevel,
+    mention: boolean,
+    send: PendingUpdateSender,
+    mergeKey: string = ""
   ): void {
-    const existing = this.pendingUpdates.get(jobId);
+    let existing = this.pendingUpdates.get(jobId);
+    if (existing && existing.mergeKey !== mergeKey) {
+      void this.flushUpdate(jobId);
+      existing = undefined;
+    }
 
     if (existing) {
-      clearTimeout(existing.timeout);
+      existing.messages.push(message);
+      if (LEVEL_SEVERITY[level] > LEVEL_SEVERITY[existing.level]) {
+        existing.level = level;
+      }
+      existing.mention = existing.mention || mention;
+      existing.send = send;
+      return;
     }
 
-    const timeout = setTimeout(async () => {
-      this.pendingUpdates.delete(jobId);
-      await callback(message, level);
+    const timeout = setTimeout(() => {
+      void this.flushUpdate(jobId);
     }, this.debounceMs);
 
-    this.pendingUpdates.set(jobId, { message, level, timeout });
+    this.pendingUpdates.set(jobId, {
+      messages: [message],
+      level,
+      mention,
+      timeout,
+      send,
+      mergeKey,
+    });
   }
 
-  flushUpdate(jobId: string): DebounceEntry | undefined {
+  /**
+   * 保留中の進捗更新を即座に送信し、送信中のものを含めて完了を待つ
+   * 完了・失敗・待機の通知前に呼び出し、投稿順を保つ
+   */
+  async flushUpdate(jobId: string): Promise<void> {
     const entry = this.pendingUpdates.get(jobId);
+
     if (entry) {
       clearTimeout(entry.timeout);
       this.pendingUpdates.delete(jobId);
+
+      const { messages, level, mention, send } = entry;
+      const previous = this.sendingUpdates.get(jobId) ?? Promise.resolve();
+      const sending = previous.then(() => send({ messages, level, mention })).catch(() => {
+        // 送信失敗は send 側で扱う（後続の送信や flush を止めない）
+      });
+      this.sendingUpdates.set(jobId, sending);
+      void sending.then(() => {
+        if (this.sendingUpdates.get(jobId) === sending) {
+          this.sendingUpdates.delete(jobId);
+        }
+      });
     }
-    return entry;
+
+    await this.sendingUpdates.get(jobId);
+  }
+
+  /**
+   * すべてのジョブの保留中の進捗更新を送信（終了時用）
+   */
+  async flushAllUpdates(): Promise<void> {
+    const jobIds = new Set([...this.pendingUpdates.keys(), ...this.sendingUpdates.keys()]);
+    await Promise.all([...jobIds].map((jobId) => this.flushUpdate(jobId)));
   }
 
   delete(jobId: string): boolean {
-    const existed = this.threads.delete(jobId);
-    if (existed) {
-      this.saveToDisk();
+    return this.storage.delete(jobId);
+  }
+
+  list(query?: ThreadQuery): ThreadState[] {
+    return this.storage.list(query);
+  }
+
+  /**
+   * 条件に一致するジョブを削除し、削除したジョブの状態を返す
+   * dryRun の場合は削除せずに対象のみを返す
+   */
+  prune(query: ThreadQuery, dryRun: boolean = false): ThreadState[] {
+    return dryRun ? this.storage.list(query) : this.storage.deleteMatching(query);
+  }
+
+  /**
+   * 保持期間を過ぎた終了済みジョブとスレッド未作成のジョブを削除
+   */
+  applyRetention(policy: RetentionPolicy, dryRun: boolean = false): ThreadState[] {
+    const terminalDays = policy.terminalDays ?? DEFAULT_RETENTION_POLICY.terminalDays;
+    const placeholderDays = policy.placeholderDays ?? DEFAULT_RETENTION_POLICY.placeholderDays;
+    const now = Date.now();
+    const removed: ThreadState[] = [];
+
+    if (terminalDays > 0) {
+      removed.push(
+        ...this.prune(
+          {
+            status: ["completed", "failed"],
+            updatedBefore: new Date(now - terminalDays * DAY_MS).toISOString(),
+          },
+          dryRun
+        )
+      );
     }
-    return existed;
+
+    if (placeholderDays > 0) {
+      const updatedBefore = new Date(now - placeholderDays * DAY_MS).toISOString();
+      removed.push(
+        ...this.prune({ placeholder: true, updatedBefore }, dryRun).filter(
+          (state) => !removed.some((r) => r.jobId === state.jobId)
+        )
+      );
+    }
+
+    return removed;
   }
 
-  list(): ThreadState[] {
-    return Array.from(this.threads.values());
+  close(): void {
+    this.storage.close();
   }
 }
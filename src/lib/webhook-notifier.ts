@@ -0,0 +1,328 @@
+import { GitChangeSummary, GitChangeSummaryJson, toGitChangeSummaryJson } from "./git-summary.js";
+import { JobDurations, JobDurationsJson, toDurationsJson } from "./job-timing.js";
+import { MessageLevel } from "./message-blocks.js";
+import {
+  BaseNotifier,
+  NotifierConfig,
+  ParentMessageUpdate,
+  PostResult,
+  parseRetryAfter,
+  ReplyResult,
+  RetryableNotifierError,
+  syntheticTs,
+} from "./notifier.js";
+import { ProgressInfo } from "./progress.js";
+
+export interface WebhookConfig extends NotifierConfig {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export type WebhookEventType =
+  | "start"
+  | "reply"
+  | "upsert"
+  | "complete"
+  | "fail"
+  | "waiting"
+  | "parent_update";
+
+/**
+ * 汎用 Webhook に送信される JSON イベント
+ */
+export interface WebhookEvent {
+  event: WebhookEventType;
+  job_id?: string;
+  channel: string;
+  thread_ts?: string;
+  message_ts?: string;
+  title?: string;
+  meta?: Record<string, unknown>;
+  message?: string;
+  level?: MessageLevel;
+  summary?: string;
+  next_suggestions?: string[];
+  error_summary?: string;
+  logs_hint?: string;
+  reason?: string;
+  status?: string;
+  started_at?: string;
+  progress?: { current: number; total: number; unit?: string; eta_ms?: number };
+  durations?: JobDurationsJson;
+  git_changes?: GitChangeSummaryJson;
+  mention: boolean;
+  text: string;
+  timestamp: string;
+}
+
+/**
+ * 任意の HTTP エンドポイントに JSON イベントを POST する通知バックエンド
+ *
+ * レスポンスが JSON で `ts` / `permalink` を含む場合はそれを使用し、
+ * 含まない場合は擬似 ts を返す。
+ */
+export class WebhookNotifier extends BaseNotifier {
+  private url: string;
+  private headers: Record<string, string>;
+
+  constructor(config: WebhookConfig) {
+    super(config);
+    this.url = config.url;
+    this.headers = config.headers ?? {};
+  }
+
+  private async send(
+    event: Omit<WebhookEvent, "timestamp">
+  ): Promise<{ ok: boolean; ts: string; permalink?: string }> {
+    const payload: WebhookEvent = { ...event, timestamp: new Date().toISOString() };
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...this.headers },
+        body: JSON.stringify(payload),
+      });
+    } catch (error) {
+      throw new RetryableNotifierError(`Webhook request failed: ${String(error)}`, undefined, {
+        cause: error,
+      });
+    }
+
+    if (response.status === 429 || response.status >= 500) {
+      throw new RetryableNotifierError(
+        `Webhook HTTP ${response.status}`,
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
+    }
+
+    let ts: string | undefined;
+    let permalink: string | undefined;
+    try {
+      const body = (await response.json()) as { ts?: unknown; permalink?: unknown };
+      ts = typeof body.ts === "string" ? body.ts : undefined;
+      permalink = typeof body.permalink === "string" ? body.permalink : undefined;
+    } catch {
+      // レスポンスボディは任意
+    }
+
+    return { ok: response.ok, ts: ts || event.message_ts || syntheticTs(), permalink };
+  }
+
+  async postParentMessage(
+    channel: string,
+    title: string,
+    meta?: Record<string, unknown>,
+    mention: boolean = true,
+    jobId?: string
+  ): Promise<PostResult> {
+    const { text, mentioned } = this.renderParent(title, meta, { requested: mention, channel }, jobId);
+    const result = await this.send({
+      event: "start",
+      job_id: jobId,
+      channel,
+      title,
+      meta,
+      mention: mentioned,
+      text,
+    });
+
+    return {
+      ok: result.ok,
+      channel,
+      ts: result.ts,
+      permalink: result.permalink,
+    };
+  }
+
+  async postThreadReply(
+    channel: string,
+    threadTs: string,
+    message: string,
+    level: MessageLevel = "info",
+    mention: boolean = false,
+    jobId?: string
+  ): Promise<ReplyResult> {
+    const { text, mentioned } = this.renderReply(
+      message,
+      level,
+      { requested: mention, channel },
+      undefined,
+      jobId
+    );
+    const result = await this.send({
+      event: "reply",
+      job_id: jobId,
+      channel,
+      thread_ts: threadTs,
+      message,
+      level,
+      mention: mentioned,
+      text,
+    });
+
+    return { ok: result.ok, ts: result.ts };
+  }
+
+  async upsertThreadReply(
+    channel: string,
+    threadTs: string,
+    message: string,
+    level: MessageLevel = "info",
+    mention: boolean = false,
+    messageTs?: string,
+    progress?: ProgressInfo,
+    jobId?: string
+  ): Promise<ReplyResult> {
+    const { text, mentioned } = this.renderReply(
+      message,
+      level,
+      { requested: mention, channel },
+      progress,
+      jobId
+    );
+    const result = await this.send({
+      event: messageTs ? "upsert" : "reply",
+      job_id: jobId,
+      channel,
+      thread_ts: threadTs,
+      message_ts: messageTs,
+      message,
+      level,
+      progress: progress && {
+        current: progress.current,
+        total: progress.total,
+        unit: progress.unit,
+        eta_ms: progress.etaMs !== undefined ? Math.round(progress.etaMs) : undefined,
+      },
+      mention: mentioned,
+      text,
+    });
+
+    return { ok: result.ok, ts: result.ts };
+  }
+
+  async postComplete(
+    channel: string,
+    threadTs: string,
+    title: string,
+    summary?: string,
+    nextSuggestions?: string[],
+    mention: boolean = true,
+    jobId?: string,
+    durations?: JobDurations,
+    gitChanges?: GitChangeSummary
+  ): Promise<ReplyResult> {
+    const { text, mentioned } = this.renderComplete(
+      title,
+      summary,
+      nextSuggestions,
+      { requested: mention, channel },
+      jobId,
+      durations,
+      gitChanges
+    );
+    const result = await this.send({
+      event: "complete",
+      job_id: jobId,
+      channel,
+      thread_ts: threadTs,
+      title,
+      summary,
+      next_suggestions: nextSuggestions,
+      durations: durations ? toDurationsJson(durations) : undefined,
+      git_changes: gitChanges ? toGitChangeSummaryJson(gitChanges) : undefined,
+      mention: mentioned,
+      text,
+    });
+
+    return { ok: result.ok, ts: result.ts };
+  }
+
+  async postFail(
+    channel: string,
+    threadTs: string,
+    title: string,
+    errorSummary: string,
+    logsHint?: string,
+    mention: boolean = true,
+    jobId?: string,
+    durations?: JobDurations
+  ): Promise<ReplyResult> {
+    const { text, mentioned } = this.renderFail(
+      title,
+      errorSummary,
+      logsHint,
+      { requested: mention, channel },
+      jobId,
+      durations
+    );
+    const result = await this.send({
+      event: "fail",
+      job_id: jobId,
+      channel,
+      thread_ts: threadTs,
+      title,
+      error_summary: errorSummary,
+      logs_hint: logsHint,
+      durations: durations ? toDurationsJson(durations) : undefined,
+      mention: mentioned,
+      text,
+    });
+
+    return { ok: result.ok, ts: result.ts };
+  }
+
+  async postWaiting(
+    channel: string,
+    threadTs: string,
+    title: string,
+    reason: string,
+    mention: boolean = true,
+    messageTs?: string,
+    jobId?: string
+  ): Promise<ReplyResult> {
+    const { text, mentioned } = this.renderWaiting(title, reason, { requested: mention, channel }, jobId);
+    const result = await this.send({
+      event: "waiting",
+      job_id: jobId,
+      channel,
+      thread_ts: threadTs,
+      message_ts: messageTs,
+      title,
+      reason,
+      mention: mentioned,
+      text,
+    });
+
+    return { ok: result.ok, ts: result.ts };
+  }
+
+  /**
+   * 親メッセージの再描画（受信側で message_ts のメッセージを更新できるよう、親の ts を渡す）
+   */
+  async updateParentMessage(
+    channel: string,
+    threadTs: string,
+    update: ParentMessageUpdate,
+    jobId?: string
+  ): Promise<ReplyResult> {
+    const { text } = this.renderParentStatus(update, jobId);
+    const result = await this.send({
+      event: "parent_update",
+      job_id: jobId,
+      channel,
+      thread_ts: threadTs,
+      message_ts: threadTs,
+      title: update.title,
+      meta: update.meta,
+      status: update.status,
+      started_at: update.startedAt,
+      durations: update.durations && toDurationsJson(update.durations),
+      summary: update.summary,
+      mention: false,
+      text,
+    });
+
+    return { ok: result.ok, ts: threadTs };
+  }
+}
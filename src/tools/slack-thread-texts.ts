@@ -0,0 +1,198 @@
+import { Locale } from "../lib/locale.js";
+
+const en = {
+  common: {
+    jobId: "Unique job identifier",
+    threadTs: "Thread timestamp (used when no thread is found for job_id)",
+    mentionDefaultOn: "Whether to mention (default: true)",
+    mentionDefaultOff: "Whether to mention (default: false)",
+  },
+  start: {
+    description:
+      "Creates a thread for a new job and posts the parent message to Slack. Calling it again with the same job_id returns the existing thread (idempotent).",
+    jobId: "Unique job identifier (UUID recommended)",
+    title: "Short name of the work (e.g. Terraform apply)",
+    channel: "Channel to post to (default channel when omitted)",
+    meta: "Additional info (repo, branch, cwd, ...). Repository, branch, commit, etc. are added automatically; keys given here take precedence",
+  },
+  update: {
+    description:
+      "Replies to the thread with progress. Does not mention. Calls in quick succession are batched to avoid flooding, so the result is `{ ok, scheduled }` without a message ts; use slack_thread_get to read progress_message_ts after posting.",
+    message: "Progress message",
+    level: "Message level (default: info)",
+    upsert: "Whether to overwrite the existing progress message (default: false; true when current/total are given)",
+    enableWaitingMonitor: "Whether to monitor for a pause such as a pending permission check (default: true)",
+    waitingTimeoutMs: "Time until the pause notification (milliseconds, default: 30000)",
+    current: "Current progress (with total; shows a progress bar, percentage and ETA)",
+    total: "Total amount of work (with current)",
+    unit: "Unit of progress (e.g. resources, migrations)",
+  },
+  waiting: {
+    description:
+      "Notifies that processing is paused. Use it while waiting for a permission check or user input.",
+    reason: "Reason for the pause (e.g. waiting for permission, waiting for user input)",
+  },
+  complete: {
+    description: "Replies to the thread that the job completed. Mentions by default.",
+    summary: "Completion summary",
+    nextSuggestions: "Suggested next actions (suggestions only)",
+  },
+  fail: {
+    description: "Replies to the thread that the job failed. Mentions by default.",
+    errorSummary: "Summary of the error",
+    logsHint: "Hint about where the logs are or which command to run",
+  },
+  attach: {
+    description:
+      "Attaches a file to the job's thread. Give a file with path, or pass the content directly with content. With tail_lines, only the last N lines of the text are attached (e.g. a build log excerpt). Files can be attached after the job has finished.",
+    path: "Path of the file to attach",
+    content: "Content to attach (instead of path)",
+    filename: "File name (when content is given, default: attachment.txt)",
+    tailLines: "Attach only the last N lines",
+    comment: "Comment to add to the file",
+  },
+  get: {
+    description:
+      "Gets the job's thread info (thread_ts, status, permalink, ...). Use it when you lost the thread_ts or to check whether the job has already finished. Does not post to Slack.",
+  },
+  list: {
+    description:
+      "Lists the recorded job threads, most recently updated first. Can be filtered by status or title. Does not post to Slack.",
+    status: "Statuses to filter by (all when omitted)",
+    title: "Text contained in the title (case-insensitive)",
+    limit: "Maximum number of jobs (default: 20)",
+  },
+  export: {
+    description:
+      "Generates a job report (title, meta, progress timeline, waiting periods, completion summary or error, next suggestions, permalink) as Markdown / HTML / JSON. Use it to paste into a PR description or an incident record. Generated from the recorded thread state without accessing Slack.",
+    format: "Output format (default: markdown)",
+  },
+  readReplies: {
+    description:
+      "Reads replies posted by humans in the job's thread (the bot's own posts are excluded). The read position is recorded, so repeated calls return only new replies. Use it to check whether additional instructions or answers arrived while working.",
+    markRead: "Whether to update the read position (default: true; when false, the same replies are returned next time)",
+  },
+  ask: {
+    description:
+      "Posts a question to the job's thread (mentions by default), waits until someone replies in the thread and returns the answer. With choices, they are shown as numbered options. Returns answered: false when no answer arrives within timeout_seconds. Use it to get an answer via Slack without stopping the work when you are unsure or need confirmation.",
+    question: "Question",
+    choices: "Answer options (shown numbered; replies with the number or the option text are accepted)",
+    timeoutSeconds: (seconds: number) => `Maximum seconds to wait for an answer (default: ${seconds})`,
+    pollIntervalSeconds: (seconds: number) => `Interval for checking replies (seconds, default: ${seconds})`,
+  },
+  messages: {
+    threadNotFound: (jobId: string, threadTs: string | undefined) =>
+      `Thread not found: job_id=${jobId}, thread_ts=${threadTs}`,
+    postFailed: "Failed to post to Slack",
+    reusedThread: "Reused the existing thread",
+    alreadyFinished: "The job has already finished",
+    alreadyFinishedNote: "The job has already finished",
+    jobNotFound: "Job not found",
+    pathOrContent: "Specify exactly one of path and content",
+    defaultWaitingReason: "Waiting for a permission check or user input",
+    progressFailed: (jobId: string) => `Failed to send progress: job_id=${jobId}`,
+    questionPollFailed: (questionTs: string, reason: string) =>
+      `The question was posted (question_ts=${questionTs}) but reading replies failed: ${reason}`,
+  },
+};
+
+const ja: typeof en = {
+  common: {
+    jobId: "ジョブの一意識別子",
+    threadTs: "スレッドのタイムスタンプ（job_idでスレッドが見つからない場合に使用）",
+    mentionDefaultOn: "メンションを行うか（デフォルト: true）",
+    mentionDefaultOff: "メンションを行うか（デフォルト: false）",
+  },
+  start: {
+    description:
+      "新しいジョブのスレッドを作成し、Slackに親メッセージを投稿します。同一job_idで再度呼ばれた場合は既存のスレッド情報を返します（冪等性）。",
+    jobId: "ジョブの一意識別子（UUID推奨）",
+    title: "短い作業名（例：Terraform apply）",
+    channel: "投稿先チャンネル（省略時はデフォルトチャンネル）",
+    meta: "追加情報（repo名、branch、cwdなど。リポジトリ名・ブランチ・コミット等は自動で追加され、同じキーはこちらが優先）",
+  },
+  update: {
+    description:
+      "進捗を同スレッドに返信します。メンションは行いません。連投防止のため、短時間の連続呼び出しはまとめられます。そのため結果は投稿の ts を含まない `{ ok, scheduled }` です。投稿後の progress_message_ts は slack_thread_get で取得できます。",
+    message: "進捗メッセージ",
+    level: "メッセージレベル（デフォルト: info）",
+    upsert: "既存の進捗メッセージを上書きするか（デフォルト: false。current/total指定時はtrue）",
+    enableWaitingMonitor: "権限確認待ち監視を有効にするか（デフォルト: true）",
+    waitingTimeoutMs: "権限確認待ち通知までの時間（ミリ秒、デフォルト: 30000）",
+    current: "進捗の現在値（totalと同時に指定。プログレスバー・割合・完了予想時間を表示）",
+    total: "進捗の総数（currentと同時に指定）",
+    unit: "進捗の単位（例：resources、migrations）",
+  },
+  waiting: {
+    description:
+      "処理が一時停止していることを通知します。権限確認やユーザー入力待ちの際に使用してください。",
+    reason: "停止理由（例：権限確認待ち、ユーザー入力待ち）",
+  },
+  complete: {
+    description: "ジョブの完了を同スレッドに返信します。デフォルトでメンションを行います。",
+    summary: "完了サマリ",
+    nextSuggestions: "次のアクション候補（提案のみ）",
+  },
+  fail: {
+    description: "ジョブの失敗を同スレッドに返信します。デフォルトでメンションを行います。",
+    errorSummary: "エラーの概要",
+    logsHint: "ログの場所やコマンドのヒント",
+  },
+  attach: {
+    description:
+      "ジョブのスレッドにファイルを添付します。pathでファイルを指定するか、contentで内容を直接渡してください。tail_linesを指定するとテキストの末尾N行のみを添付します（ビルドログの抜粋など）。ジョブの終了後も添付できます。",
+    path: "添付するファイルのパス",
+    content: "添付する内容（pathの代わりに指定）",
+    filename: "ファイル名（contentを指定した場合。デフォルト: attachment.txt）",
+    tailLines: "末尾のN行のみを添付",
+    comment: "ファイルに添えるコメント",
+  },
+  get: {
+    description:
+      "ジョブのスレッド情報（thread_ts、ステータス、permalinkなど）を取得します。thread_tsを見失った場合や、ジョブが既に終了しているかの確認に使用してください。Slackへの投稿は行いません。",
+  },
+  list: {
+    description:
+      "記録されているジョブのスレッド情報を、最近更新された順に一覧します。ステータスやタイトルで絞り込めます。Slackへの投稿は行いません。",
+    status: "絞り込むステータス（省略時はすべて）",
+    title: "タイトルに含まれる文字列（大文字小文字を区別しない）",
+    limit: "最大件数（デフォルト: 20）",
+  },
+  export: {
+    description:
+      "ジョブのレポート（タイトル、meta、進捗のタイムライン、待機期間、完了サマリまたはエラー、次の候補、permalink）を Markdown / HTML / JSON で生成します。PRの説明やインシデントの記録に貼り付けるために使用してください。記録済みのスレッド状態から生成し、Slackへのアクセスは行いません。",
+    format: "出力形式（デフォルト: markdown）",
+  },
+  readReplies: {
+    description:
+      "ジョブのスレッドに人間が投稿した返信を読み取ります（Bot自身の投稿は除外）。前回読み取った位置を記録するため、繰り返し呼び出すと新しい返信のみが返ります。作業中に追加の指示や回答が届いていないか確認するために使用してください。",
+    markRead: "読み取り位置を更新するか（デフォルト: true。falseの場合は次回も同じ返信が返ります）",
+  },
+  ask: {
+    description:
+      "ジョブのスレッドに質問を投稿し（デフォルトでメンション）、誰かがスレッドに返信するまで待機して回答を返します。choicesを指定すると番号付きの選択肢として表示されます。timeout_secondsまでに回答がなければ answered: false を返します。判断に迷う場合や確認が必要な場合に、作業を止めずにSlack経由で回答を得るために使用してください。",
+    question: "質問内容",
+    choices: "回答の選択肢（番号付きで表示。番号または選択肢の文字列での返信を受け付けます）",
+    timeoutSeconds: (seconds: number) => `回答を待つ最大秒数（デフォルト: ${seconds}）`,
+    pollIntervalSeconds: (seconds: number) => `返信を確認する間隔（秒、デフォルト: ${seconds}）`,
+  },
+  messages: {
+    threadNotFound: (jobId: string, threadTs: string | undefined) =>
+      `スレッドが見つかりません: job_id=${jobId}, thread_ts=${threadTs}`,
+    postFailed: "Slack投稿に失敗しました",
+    reusedThread: "既存のスレッドを再利用しました",
+    alreadyFinished: "ジョブは既に終了しています",
+    alreadyFinishedNote: "ジョブは既に終了済みです",
+    jobNotFound: "ジョブが見つかりません",
+    pathOrContent: "path と content のどちらか一方を指定してください",
+    defaultWaitingReason: "権限確認またはユーザー入力待ち",
+    progressFailed: (jobId: string) => `進捗の送信に失敗しました: job_id=${jobId}`,
+    questionPollFailed: (questionTs: string, reason: string) =>
+      `質問は投稿済みですが、返信の読み取りに失敗しました（question_ts=${questionTs}）: ${reason}`,
+  },
+};
+
+/**
+ * MCP ツールの説明と、ツールが返す文言
+ */
+export const SLACK_THREAD_TEXTS: Record<Locale, typeof en> = { en, ja };
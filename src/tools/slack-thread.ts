@@ -1,33 +1,97 @@
 import { FastMCP } from "fastmcp";
 import { z } from "zod";
-import { SlackClient } from "../lib/slack-client.js";
-import { ThreadStore } from "../lib/thread-store.js";
+import { readAttachment, textAttachment } from "../lib/attachments.js";
+import { renderJobReport } from "../lib/job-report.js";
+import { getJobDurations, toDurationsJson } from "../lib/job-timing.js";
+import { localize } from "../lib/locale.js";
+import { compareTs, Notifier } from "../lib/notifier.js";
+import { refreshParentMessage, resumeParentMessage } from "../lib/parent-status.js";
+import { estimateEtaMs, ProgressInfo, validateProgress } from "../lib/progress.js";
+import { withRepoContext } from "../lib/repo-context.js";
+import { JOB_STATUSES, JobStatus, ThreadState, ThreadStore } from "../lib/thread-store.js";
+import { SLACK_THREAD_TEXTS } from "./slack-thread-texts.js";
+
+/**
+ * ThreadState をツールの出力形式（snake_case）に変換
+ */
+function toThreadInfo(state: ThreadState): Record<string, unknown> {
+  return {
+    job_id: state.jobId,
+    title: state.title,
+    status: state.status,
+    channel: state.channel,
+    thread_ts: state.threadTs || undefined,
+    permalink: state.permalink,
+    progress_message_ts: state.progressMessageTs,
+    last_read_reply_ts: state.lastReadReplyTs,
+    created_at: state.createdAt,
+    updated_at: state.updatedAt,
+    in_progress_at: state.inProgressAt,
+    waiting_since: state.waitingSince,
+    finished_at: state.finishedAt,
+    start_commit: state.startCommit,
+    durations: toDurationsJson(getJobDurations(state)),
+  };
+}
+
+const ASK_DEFAULT_TIMEOUT_SECONDS = 600;
+const ASK_DEFAULT_POLL_INTERVAL_SECONDS = 5;
+
+/**
+ * まとめられた進捗メッセージを1件の投稿にする
+ */
+function formatPendingMessages(messages: string[]): string {
+  return messages.length === 1 ? messages[0] : messages.map((m) => `• ${m}`).join("\n");
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 回答を選択肢に対応付ける（番号 "2" / "2." または選択肢の文字列そのもの）
+ * 対応しない場合は undefined（自由回答として扱う）
+ */
+function matchChoice(answer: string, choices: string[]): number | undefined {
+  // Bot へのメンション付きで返信された場合に備えて除去
+  const normalized = answer.replace(/<@[^>]+>/g, "").trim();
+
+  const numberMatch = normalized.match(/^(\d+)[.)]?$/);
+  if (numberMatch) {
+    const index = Number(numberMatch[1]) - 1;
+    return index >= 0 && index < choices.length ? index : undefined;
+  }
+
+  const index = choices.findIndex((c) => c.trim().toLowerCase() === normalized.toLowerCase());
+  return index >= 0 ? index : undefined;
+}
 
 export function slackThreadTools(
   server: FastMCP,
-  slackClient: SlackClient,
+  notifier: Notifier,
   threadStore: ThreadStore
 ): void {
+  const texts = localize(SLACK_THREAD_TEXTS);
+
   // slack_thread_start
   server.addTool({
     name: "slack_thread_start",
-    description:
-      "新しいジョブのスレッドを作成し、Slackに親メッセージを投稿します。同一job_idで再度呼ばれた場合は既存のスレッド情報を返します（冪等性）。",
+    description: texts.start.description,
     parameters: z.object({
-      job_id: z.string().describe("ジョブの一意識別子（UUID推奨）"),
-      title: z.string().describe("短い作業名（例：Terraform apply）"),
+      job_id: z.string().describe(texts.start.jobId),
+      title: z.string().describe(texts.start.title),
       channel: z
         .string()
         .optional()
-        .describe("投稿先チャンネル（省略時はデフォルトチャンネル）"),
+        .describe(texts.start.channel),
       meta: z
         .record(z.unknown())
         .optional()
-        .describe("追加情報（repo名、branch、cwdなど）"),
+        .describe(texts.start.meta),
       mention: z
         .boolean()
         .optional()
-        .describe("メンションを行うか（デフォルト: true）"),
+        .describe(texts.common.mentionDefaultOn),
     }),
     execute: async ({ job_id, title, channel, meta, mention }) => {
       // 冪等性: 既存のジョブがあれば再利用
@@ -42,24 +106,27 @@ export function slackThreadTools(
                 channel: existing.channel,
                 thread_ts: existing.threadTs,
                 permalink: existing.permalink,
-                note: "既存のスレッドを再利用しました",
+                note: texts.messages.reusedThread,
               }),
             },
           ],
         };
       }
 
-      const targetChannel = channel || slackClient.getDefaultChannel();
+      const targetChannel = channel || notifier.getDefaultChannel();
+      // サーバーの作業ディレクトリのリポジトリ情報を補う（引数の meta が優先）
+      const parentMeta = withRepoContext(meta, process.cwd());
 
-      const result = await slackClient.postParentMessage(
+      const result = await notifier.postParentMessage(
         targetChannel,
         title,
-        meta,
-        mention !== false
+        parentMeta,
+        mention !== false,
+        job_id
       );
 
       if (!result.ok) {
-        throw new Error("Slack投稿に失敗しました");
+        throw new Error(texts.messages.postFailed);
       }
 
       const state = threadStore.create(
@@ -67,8 +134,12 @@ export function slackThreadTools(
         result.channel,
         result.ts,
         title,
-        result.permalink
+        result.permalink,
+        parentMeta
       );
+      threadStore.recordEvent(job_id, { type: "start", message: title, ts: result.ts });
+      // 進行中のリアクションを付ける（edit では投稿時の表示のままのため書き換えない）
+      await resumeParentMessage(notifier, threadStore, job_id);
 
       return {
         content: [
@@ -89,45 +160,61 @@ export function slackThreadTools(
   // slack_thread_update
   server.addTool({
     name: "slack_thread_update",
-    description:
-      "進捗を同スレッドに返信します。メンションは行いません。連投防止のため、短時間の連続呼び出しはまとめられます。",
+    description: texts.update.description,
     parameters: z.object({
-      job_id: z.string().describe("ジョブの一意識別子"),
-      message: z.string().describe("進捗メッセージ"),
+      job_id: z.string().describe(texts.common.jobId),
+      message: z.string().describe(texts.update.message),
       thread_ts: z
         .string()
         .optional()
-        .describe("スレッドのタイムスタンプ（job_idでスレッドが見つからない場合に使用）"),
+        .describe(texts.common.threadTs),
       level: z
         .enum(["info", "warn", "debug"])
         .optional()
-        .describe("メッセージレベル（デフォルト: info）"),
+        .describe(texts.update.level),
       mention: z
         .boolean()
         .optional()
-        .describe("メンションを行うか（デフォルト: false）"),
+        .describe(texts.common.mentionDefaultOff),
       upsert: z
         .boolean()
         .optional()
-        .describe("既存の進捗メッセージを上書きするか（デフォルト: false）"),
+        .describe(texts.update.upsert),
       enable_waiting_monitor: z
         .boolean()
         .optional()
-        .describe("権限確認待ち監視を有効にするか（デフォルト: true）"),
+        .describe(texts.update.enableWaitingMonitor),
       waiting_timeout_ms: z
         .number()
         .optional()
-        .describe("権限確認待ち通知までの時間（ミリ秒、デフォルト: 30000）"),
+        .describe(texts.update.waitingTimeoutMs),
+      current: z
+        .number()
+        .optional()
+        .describe(texts.update.current),
+      total: z
+        .number()
+        .optional()
+        .describe(texts.update.total),
+      unit: z
+        .string()
+        .optional()
+        .describe(texts.update.unit),
     }),
-    execute: async ({ job_id, message, thread_ts, level, mention, upsert, enable_waiting_monitor, waiting_timeout_ms }) => {
+    execute: async ({ job_id, message, thread_ts, level, mention, upsert, enable_waiting_monitor, waiting_timeout_ms, current, total, unit }) => {
+      const progressError = validateProgress(current, total);
+      if (progressError) {
+        throw new Error(progressError);
+      }
+
       const state = threadStore.get(job_id);
 
       // thread_ts が指定されていればそちらを優先、なければ state から取得
       const targetThreadTs = thread_ts || state?.threadTs;
-      const targetChannel = state?.channel || slackClient.getDefaultChannel();
+      const targetChannel = state?.channel || notifier.getDefaultChannel();
 
       if (!targetThreadTs) {
-        throw new Error(`スレッドが見つかりません: job_id=${job_id}, thread_ts=${thread_ts}`);
+        throw new Error(texts.messages.threadNotFound(job_id, thread_ts));
       }
 
       if (state && threadStore.isTerminal(job_id)) {
@@ -137,7 +224,7 @@ export function slackThreadTools(
               type: "text" as const,
               text: JSON.stringify({
                 ok: false,
-                reason: "ジョブは既に終了しています",
+                reason: texts.messages.alreadyFinished,
               }),
             },
           ],
@@ -145,31 +232,65 @@ export function slackThreadTools(
       }
 
       // 前回の監視をキャンセル
-      slackClient.cancelWaitingMonitor(job_id);
+      notifier.cancelWaitingMonitor(job_id);
 
       if (state) {
         threadStore.updateStatus(job_id, "in_progress");
       }
 
-      // upsertモードの場合は既存メッセージを上書き
-      const existingMessageTs = upsert ? threadStore.getProgressMessageTs(job_id) : undefined;
-      const result = await slackClient.upsertThreadReply(
-        targetChannel,
-        targetThreadTs,
-        message,
-        level || "info",
-        mention === true,
-        existingMessageTs
-      );
-
-      // 投稿したメッセージのtsを保存（次回の上書き用）
-      if (result.ok && result.ts && upsert) {
-        threadStore.updateProgressMessageTs(job_id, result.ts);
+      // 構造化された進捗は呼び出し時点で記録し、ETA を計算する
+      // 進捗を指定した場合は、明示されない限り進捗メッセージを上書きする
+      let progress: ProgressInfo | undefined;
+      if (current !== undefined && total !== undefined) {
+        const history = threadStore.recordProgress(job_id, current, total);
+        progress = { current, total, unit, etaMs: estimateEtaMs(history) };
       }
+      const useUpsert = upsert ?? progress !== undefined;
+
+      // 短時間の連続呼び出しは1回の投稿（upsertモードでは1回の上書き）にまとめる
+      // 上書きの有無・進捗の有無が同じ呼び出しのみまとめ、進捗の値は最後の呼び出しのものを表示する
+      const mergeKey = `${useUpsert}:${progress !== undefined}`;
+      threadStore.scheduleUpdate(job_id, message, level || "info", mention === true, async (pending) => {
+        try {
+          const existingMessageTs = useUpsert ? threadStore.getProgressMessageTs(job_id) : undefined;
+          const text = formatPendingMessages(pending.messages);
+          const result = await notifier.upsertThreadReply(
+            targetChannel,
+            targetThreadTs,
+            text,
+            pending.level,
+            pending.mention,
+            existingMessageTs,
+            progress,
+            job_id
+          );
+
+          // 投稿したメッセージのtsを保存（次回の上書き用）
+          if (result.ok && result.ts && useUpsert) {
+            threadStore.updateProgressMessageTs(job_id, result.ts);
+          }
+          if (result.ok) {
+            // まとめて投稿した場合は、投稿した内容を1件のイベントとして記録
+            threadStore.recordEvent(job_id, {
+              type: "update",
+              message: text,
+              level: pending.level,
+              ts: result.ts,
+              edited: existingMessageTs !== undefined && result.ts === existingMessageTs,
+            });
+            await resumeParentMessage(notifier, threadStore, job_id);
+          }
+        } catch (error) {
+          console.error(
+            texts.messages.progressFailed(job_id),
+            error instanceof Error ? error.message : error
+          );
+        }
+      }, mergeKey);
 
       // 権限確認待ち監視を開始（デフォルトで有効）
       if (enable_waiting_monitor !== false) {
-        slackClient.startWaitingMonitor(
+        notifier.startWaitingMonitor(
           job_id,
           targetChannel,
           targetThreadTs,
@@ -181,7 +302,7 @@ export function slackThreadTools(
         content: [
           {
             type: "text" as const,
-            text: JSON.stringify({ ok: result.ok }),
+            text: JSON.stringify({ ok: true, scheduled: true }),
           },
         ],
       };
@@ -191,33 +312,32 @@ export function slackThreadTools(
   // slack_thread_waiting
   server.addTool({
     name: "slack_thread_waiting",
-    description:
-      "処理が一時停止していることを通知します。権限確認やユーザー入力待ちの際に使用してください。",
+    description: texts.waiting.description,
     parameters: z.object({
-      job_id: z.string().describe("ジョブの一意識別子"),
+      job_id: z.string().describe(texts.common.jobId),
       thread_ts: z
         .string()
         .optional()
-        .describe("スレッドのタイムスタンプ（job_idでスレッドが見つからない場合に使用）"),
+        .describe(texts.common.threadTs),
       reason: z
         .string()
         .optional()
-        .describe("停止理由（例：権限確認待ち、ユーザー入力待ち）"),
+        .describe(texts.waiting.reason),
       mention: z
         .boolean()
         .optional()
-        .describe("メンションを行うか（デフォルト: true）"),
+        .describe(texts.common.mentionDefaultOn),
     }),
     execute: async ({ job_id, thread_ts, reason, mention }) => {
       const state = threadStore.get(job_id);
 
       // thread_ts が指定されていればそちらを優先、なければ state から取得
       const targetThreadTs = thread_ts || state?.threadTs;
-      const targetChannel = state?.channel || slackClient.getDefaultChannel();
+      const targetChannel = state?.channel || notifier.getDefaultChannel();
       const title = state?.title || job_id;
 
       if (!targetThreadTs) {
-        throw new Error(`スレッドが見つかりません: job_id=${job_id}, thread_ts=${thread_ts}`);
+        throw new Error(texts.messages.threadNotFound(job_id, thread_ts));
       }
 
       if (state && threadStore.isTerminal(job_id)) {
@@ -227,22 +347,33 @@ export function slackThreadTools(
               type: "text" as const,
               text: JSON.stringify({
                 ok: false,
-                reason: "ジョブは既に終了しています",
+                reason: texts.messages.alreadyFinished,
               }),
             },
           ],
         };
       }
 
-      const reasonText = reason || "権限確認またはユーザー入力待ち";
-      const result = await slackClient.postWaiting(
+      // 保留中の進捗を先に投稿して順序を保つ
+      await threadStore.flushUpdate(job_id);
+
+      const reasonText = reason || texts.messages.defaultWaitingReason;
+      const result = await notifier.postWaiting(
         targetChannel,
         targetThreadTs,
         title,
         reasonText,
-        mention !== false
+        mention !== false,
+        undefined,
+        job_id
       );
 
+      if (result.ok) {
+        threadStore.startWaiting(job_id);
+        threadStore.recordEvent(job_id, { type: "waiting", message: reasonText, ts: result.ts });
+        await refreshParentMessage(notifier, threadStore, job_id, "waiting", reasonText);
+      }
+
       return {
         content: [
           {
@@ -257,38 +388,37 @@ export function slackThreadTools(
   // slack_thread_complete
   server.addTool({
     name: "slack_thread_complete",
-    description:
-      "ジョブの完了を同スレッドに返信します。デフォルトでメンションを行います。",
+    description: texts.complete.description,
     parameters: z.object({
-      job_id: z.string().describe("ジョブの一意識別子"),
+      job_id: z.string().describe(texts.common.jobId),
       thread_ts: z
         .string()
         .optional()
-        .describe("スレッドのタイムスタンプ（job_idでスレッドが見つからない場合に使用）"),
-      summary: z.string().optional().describe("完了サマリ"),
+        .describe(texts.common.threadTs),
+      summary: z.string().optional().describe(texts.complete.summary),
       next_suggestions: z
         .array(z.string())
         .optional()
-        .describe("次のアクション候補（提案のみ）"),
+        .describe(texts.complete.nextSuggestions),
       mention: z
         .boolean()
         .optional()
-        .describe("メンションを行うか（デフォルト: true）"),
+        .describe(texts.common.mentionDefaultOn),
     }),
     execute: async ({ job_id, thread_ts, summary, next_suggestions, mention }) => {
       const state = threadStore.get(job_id);
 
       // thread_ts が指定されていればそちらを優先、なければ state から取得
       const targetThreadTs = thread_ts || state?.threadTs;
-      const targetChannel = state?.channel || slackClient.getDefaultChannel();
+      const targetChannel = state?.channel || notifier.getDefaultChannel();
       const title = state?.title || job_id;
 
       if (!targetThreadTs) {
-        throw new Error(`スレッドが見つかりません: job_id=${job_id}, thread_ts=${thread_ts}`);
+        throw new Error(texts.messages.threadNotFound(job_id, thread_ts));
       }
 
       // 権限確認待ち監視をキャンセル
-      slackClient.cancelWaitingMonitor(job_id);
+      notifier.cancelWaitingMonitor(job_id);
 
       // 冪等性: 既に完了/失敗なら何もしない
       if (state && threadStore.isTerminal(job_id)) {
@@ -298,31 +428,49 @@ export function slackThreadTools(
               type: "text" as const,
               text: JSON.stringify({
                 ok: true,
-                note: "ジョブは既に終了済みです",
+                note: texts.messages.alreadyFinishedNote,
               }),
             },
           ],
         };
       }
 
-      const result = await slackClient.postComplete(
+      // 保留中の進捗を先に投稿して順序を保つ
+      await threadStore.flushUpdate(job_id);
+
+      const finishedAt = new Date().toISOString();
+      const durations = state ? getJobDurations(state, Date.parse(finishedAt)) : undefined;
+      const result = await notifier.postComplete(
         targetChannel,
         targetThreadTs,
         title,
         summary,
         next_suggestions,
-        mention !== false
+        mention !== false,
+        job_id,
+        durations
       );
 
       if (result.ok && state) {
-        threadStore.updateStatus(job_id, "completed");
+        threadStore.updateStatus(job_id, "completed", finishedAt);
+        threadStore.recordEvent(job_id, {
+          type: "complete",
+          at: finishedAt,
+          message: summary,
+          nextSuggestions: next_suggestions,
+          ts: result.ts,
+        });
+        await refreshParentMessage(notifier, threadStore, job_id, "completed", summary);
       }
 
       return {
         content: [
           {
             type: "text" as const,
-            text: JSON.stringify({ ok: result.ok }),
+            text: JSON.stringify({
+              ok: result.ok,
+              durations: durations && toDurationsJson(durations),
+            }),
           },
         ],
       };
@@ -332,38 +480,37 @@ export function slackThreadTools(
   // slack_thread_fail
   server.addTool({
     name: "slack_thread_fail",
-    description:
-      "ジョブの失敗を同スレッドに返信します。デフォルトでメンションを行います。",
+    description: texts.fail.description,
     parameters: z.object({
-      job_id: z.string().describe("ジョブの一意識別子"),
+      job_id: z.string().describe(texts.common.jobId),
       thread_ts: z
         .string()
         .optional()
-        .describe("スレッドのタイムスタンプ（job_idでスレッドが見つからない場合に使用）"),
-      error_summary: z.string().describe("エラーの概要"),
+        .describe(texts.common.threadTs),
+      error_summary: z.string().describe(texts.fail.errorSummary),
       logs_hint: z
         .string()
         .optional()
-        .describe("ログの場所やコマンドのヒント"),
+        .describe(texts.fail.logsHint),
       mention: z
         .boolean()
         .optional()
-        .describe("メンションを行うか（デフォルト: true）"),
+        .describe(texts.common.mentionDefaultOn),
     }),
     execute: async ({ job_id, thread_ts, error_summary, logs_hint, mention }) => {
       const state = threadStore.get(job_id);
 
       // thread_ts が指定されていればそちらを優先、なければ state から取得
       const targetThreadTs = thread_ts || state?.threadTs;
-      const targetChannel = state?.channel || slackClient.getDefaultChannel();
+      const targetChannel = state?.channel || notifier.getDefaultChannel();
       const title = state?.title || job_id;
 
       if (!targetThreadTs) {
-        throw new Error(`スレッドが見つかりません: job_id=${job_id}, thread_ts=${thread_ts}`);
+        throw new Error(texts.messages.threadNotFound(job_id, thread_ts));
       }
 
       // 権限確認待ち監視をキャンセル
-      slackClient.cancelWaitingMonitor(job_id);
+      notifier.cancelWaitingMonitor(job_id);
 
       // 冪等性: 既に完了/失敗なら何もしない
       if (state && threadStore.isTerminal(job_id)) {
@@ -373,31 +520,486 @@ export function slackThreadTools(
               type: "text" as const,
               text: JSON.stringify({
                 ok: true,
-                note: "ジョブは既に終了済みです",
+                note: texts.messages.alreadyFinishedNote,
               }),
             },
           ],
         };
       }
 
-      const result = await slackClient.postFail(
+      // 保留中の進捗を先に投稿して順序を保つ
+      await threadStore.flushUpdate(job_id);
+
+      const finishedAt = new Date().toISOString();
+      const durations = state ? getJobDurations(state, Date.parse(finishedAt)) : undefined;
+      const result = await notifier.postFail(
         targetChannel,
         targetThreadTs,
         title,
         error_summary,
         logs_hint,
-        mention !== false
+        mention !== false,
+        job_id,
+        durations
       );
 
       if (result.ok && state) {
-        threadStore.updateStatus(job_id, "failed");
+        threadStore.updateStatus(job_id, "failed", finishedAt);
+        threadStore.recordEvent(job_id, {
+          type: "fail",
+          at: finishedAt,
+          message: error_summary,
+          logsHint: logs_hint,
+          ts: result.ts,
+        });
+        await refreshParentMessage(notifier, threadStore, job_id, "failed", error_summary);
       }
 
       return {
         content: [
           {
             type: "text" as const,
-            text: JSON.stringify({ ok: result.ok }),
+            text: JSON.stringify({
+              ok: result.ok,
+              durations: durations && toDurationsJson(durations),
+            }),
+          },
+        ],
+      };
+    },
+  });
+
+  // slack_thread_attach
+  server.addTool({
+    name: "slack_thread_attach",
+    description: texts.attach.description,
+    parameters: z.object({
+      job_id: z.string().describe(texts.common.jobId),
+      thread_ts: z
+        .string()
+        .optional()
+        .describe(texts.common.threadTs),
+      path: z.string().optional().describe(texts.attach.path),
+      content: z.string().optional().describe(texts.attach.content),
+      filename: z
+        .string()
+        .optional()
+        .describe(texts.attach.filename),
+      tail_lines: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe(texts.attach.tailLines),
+      comment: z.string().optional().describe(texts.attach.comment),
+    }),
+    execute: async ({ job_id, thread_ts, path, content, filename, tail_lines, comment }) => {
+      const state = threadStore.get(job_id);
+
+      const targetThreadTs = thread_ts || state?.threadTs;
+      const targetChannel = state?.channel || notifier.getDefaultChannel();
+
+      if (!targetThreadTs) {
+        throw new Error(texts.messages.threadNotFound(job_id, thread_ts));
+      }
+      if ((path === undefined) === (content === undefined)) {
+        throw new Error(texts.messages.pathOrContent);
+      }
+
+      const file =
+        path !== undefined
+          ? readAttachment(path, tail_lines, comment)
+          : textAttachment(filename || "attachment.txt", content ?? "", tail_lines, comment);
+
+      // 保留中の進捗を先に投稿して順序を保つ
+      await threadStore.flushUpdate(job_id);
+
+      const result = await notifier.uploadFile(targetChannel, targetThreadTs, file);
+
+      if (result.ok) {
+        threadStore.recordEvent(job_id, { type: "attachment", message: file.title ?? file.filename });
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({
+              ok: result.ok,
+              file_id: result.fileId,
+              permalink: result.permalink,
+            }),
+          },
+        ],
+      };
+    },
+  });
+
+  // slack_thread_get
+  server.addTool({
+    name: "slack_thread_get",
+    description: texts.get.description,
+    parameters: z.object({
+      job_id: z.string().describe(texts.common.jobId),
+    }),
+    annotations: {
+      readOnlyHint: true,
+    },
+    execute: async ({ job_id }) => {
+      // CLI（Hooks）など他のプロセスによる更新を反映
+      threadStore.reload();
+      const state = threadStore.get(job_id);
+
+      if (!state) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                ok: false,
+                reason: texts.messages.jobNotFound,
+                job_id,
+              }),
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({
+              ok: true,
+              ...toThreadInfo(state),
+              terminal: threadStore.isTerminal(job_id),
+            }),
+          },
+        ],
+      };
+    },
+  });
+
+  // slack_thread_list
+  server.addTool({
+    name: "slack_thread_list",
+    description: texts.list.description,
+    parameters: z.object({
+      status: z
+        .array(z.enum(JOB_STATUSES as [JobStatus, ...JobStatus[]]))
+        .optional()
+        .describe(texts.list.status),
+      title: z
+        .string()
+        .optional()
+        .describe(texts.list.title),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe(texts.list.limit),
+    }),
+    annotations: {
+      readOnlyHint: true,
+    },
+    execute: async ({ status, title, limit }) => {
+      // CLI（Hooks）など他のプロセスによる更新を反映
+      threadStore.reload();
+
+      const keyword = title?.toLowerCase();
+      const threads = threadStore
+        .list({ status })
+        .filter((state) => !keyword || state.title.toLowerCase().includes(keyword))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+      const limited = threads.slice(0, limit ?? 20);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({
+              total: threads.length,
+              threads: limited.map(toThreadInfo),
+            }),
+          },
+        ],
+      };
+    },
+  });
+
+  // slack_thread_export
+  server.addTool({
+    name: "slack_thread_export",
+    description: texts.export.description,
+    parameters: z.object({
+      job_id: z.string().describe(texts.common.jobId),
+      format: z
+        .enum(["markdown", "html", "json"])
+        .optional()
+        .describe(texts.export.format),
+    }),
+    annotations: {
+      readOnlyHint: true,
+    },
+    execute: async ({ job_id, format }) => {
+      // CLI（Hooks）など他のプロセスによる更新を反映
+      threadStore.reload();
+      const state = threadStore.get(job_id);
+
+      if (!state) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                ok: false,
+                reason: texts.messages.jobNotFound,
+                job_id,
+              }),
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: renderJobReport(state, format ?? "markdown"),
+          },
+        ],
+      };
+    },
+  });
+
+  // slack_thread_read_replies
+  server.addTool({
+    name: "slack_thread_read_replies",
+    description: texts.readReplies.description,
+    parameters: z.object({
+      job_id: z.string().describe(texts.common.jobId),
+      thread_ts: z
+        .string()
+        .optional()
+        .describe(texts.common.threadTs),
+      mark_read: z
+        .boolean()
+        .optional()
+        .describe(texts.readReplies.markRead),
+    }),
+    execute: async ({ job_id, thread_ts, mark_read }) => {
+      // CLI（Hooks）など他のプロセスによる更新を反映
+      threadStore.reload();
+      const state = threadStore.get(job_id);
+
+      const targetThreadTs = thread_ts || state?.threadTs;
+      const targetChannel = state?.channel || notifier.getDefaultChannel();
+
+      if (!targetThreadTs) {
+        throw new Error(texts.messages.threadNotFound(job_id, thread_ts));
+      }
+
+      const result = await notifier.readThreadReplies(
+        targetChannel,
+        targetThreadTs,
+        state?.lastReadReplyTs
+      );
+
+      if (state && mark_read !== false && result.latestTs) {
+        threadStore.updateLastReadReplyTs(job_id, result.latestTs);
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({
+              ok: true,
+              count: result.replies.length,
+              replies: result.replies,
+            }),
+          },
+        ],
+      };
+    },
+  });
+
+  // slack_thread_ask
+  server.addTool({
+    name: "slack_thread_ask",
+    description: texts.ask.description,
+    parameters: z.object({
+      job_id: z.string().describe(texts.common.jobId),
+      question: z.string().describe(texts.ask.question),
+      choices: z
+        .array(z.string())
+        .optional()
+        .describe(texts.ask.choices),
+      thread_ts: z
+        .string()
+        .optional()
+        .describe(texts.common.threadTs),
+      mention: z
+        .boolean()
+        .optional()
+        .describe(texts.common.mentionDefaultOn),
+      timeout_seconds: z
+        .number()
+        .positive()
+        .max(3600)
+        .optional()
+        .describe(texts.ask.timeoutSeconds(ASK_DEFAULT_TIMEOUT_SECONDS)),
+      poll_interval_seconds: z
+        .number()
+        .min(1)
+        .optional()
+        .describe(texts.ask.pollIntervalSeconds(ASK_DEFAULT_POLL_INTERVAL_SECONDS)),
+    }),
+    execute: async (
+      { job_id, question, choices, thread_ts, mention, timeout_seconds, poll_interval_seconds },
+      { reportProgress }
+    ) => {
+      // CLI（Hooks）など他のプロセスによる更新を反映
+      threadStore.reload();
+      const state = threadStore.get(job_id);
+
+      const targetThreadTs = thread_ts || state?.threadTs;
+      const targetChannel = state?.channel || notifier.getDefaultChannel();
+      const title = state?.title || job_id;
+
+      if (!targetThreadTs) {
+        throw new Error(texts.messages.threadNotFound(job_id, thread_ts));
+      }
+
+      if (state && threadStore.isTerminal(job_id)) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                ok: false,
+                reason: texts.messages.alreadyFinished,
+              }),
+            },
+          ],
+        };
+      }
+
+      // 回答待ちの間に「待機中」の自動通知が重複しないようにする
+      notifier.cancelWaitingMonitor(job_id);
+
+      // 保留中の進捗を先に投稿して順序を保つ
+      await threadStore.flushUpdate(job_id);
+
+      const posted = await notifier.postQuestion(
+        targetChannel,
+        targetThreadTs,
+        title,
+        question,
+        choices,
+        mention !== false,
+        job_id
+      );
+
+      if (!posted.ok || !posted.ts) {
+        throw new Error(texts.messages.postFailed);
+      }
+
+      // 回答を待つ間は人の応答待ちとして所要時間に記録
+      if (state) {
+        threadStore.startWaiting(job_id);
+        threadStore.recordEvent(job_id, { type: "question", message: question, ts: posted.ts });
+      }
+
+      const timeoutMs = (timeout_seconds ?? ASK_DEFAULT_TIMEOUT_SECONDS) * 1000;
+      const intervalMs = (poll_interval_seconds ?? ASK_DEFAULT_POLL_INTERVAL_SECONDS) * 1000;
+      const startedAt = Date.now();
+      const deadline = startedAt + timeoutMs;
+      let cursor = posted.ts;
+
+      // 途中でエラーになっても待機時間が開いたままにならないよう、必ず待機を終える
+      try {
+        for (;;) {
+          const result = await notifier.readThreadReplies(targetChannel, targetThreadTs, cursor);
+          const answer = result.replies[0];
+
+          if (answer) {
+            if (state) {
+              threadStore.recordEvent(job_id, {
+                type: "answer",
+                message: answer.text,
+                user: answer.user,
+                ts: answer.ts,
+              });
+            }
+
+            // 回答以降の返信は slack_thread_read_replies で読めるよう、回答までを既読にする
+            const lastRead = threadStore.get(job_id)?.lastReadReplyTs;
+            if (state && (!lastRead || compareTs(answer.ts, lastRead) > 0)) {
+              threadStore.updateLastReadReplyTs(job_id, answer.ts);
+            }
+
+            const choiceIndex = choices ? matchChoice(answer.text, choices) : undefined;
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: JSON.stringify({
+                    ok: true,
+                    answered: true,
+                    answer: answer.text,
+                    user: answer.user,
+                    ts: answer.ts,
+                    choice_number: choiceIndex !== undefined ? choiceIndex + 1 : undefined,
+                    choice: choiceIndex !== undefined ? choices?.[choiceIndex] : undefined,
+                  }),
+                },
+              ],
+            };
+          }
+
+          // Bot 自身の投稿（Hooks の進捗など）は次回以降読み飛ばす
+          if (result.latestTs) {
+            cursor = result.latestTs;
+          }
+
+          const remainingMs = deadline - Date.now();
+          if (remainingMs <= 0) {
+            break;
+          }
+
+          await reportProgress({
+            progress: Math.floor((Date.now() - startedAt) / 1000),
+            total: Math.ceil(timeoutMs / 1000),
+          });
+          await sleep(Math.min(intervalMs, remainingMs));
+        }
+      } catch (error) {
+        // 質問は投稿済みのため、再投稿しないよう question_ts を添えて返す
+        throw new Error(
+          texts.messages.questionPollFailed(
+            posted.ts,
+            error instanceof Error ? error.message : String(error)
+          ),
+          { cause: error }
+        );
+      } finally {
+        if (state) {
+          threadStore.endWaiting(job_id);
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({
+              ok: true,
+              answered: false,
+              reason: "timeout",
+              question_ts: posted.ts,
+            }),
           },
         ],
       };
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { existsSync, mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import { withFileLock, withFileLockSync } from "../src/lib/file-lock.js";
+
+const dir = mkdtempSync(join(tmpdir(), "file-lock-test-"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// 終了済みのプロセスの pid
+function deadPid(): number {
+  return spawnSync(process.execPath, ["-e", ""]).pid as number;
+}
+
+describe("withFileLock", () => {
+  it("同時に呼び出しても保持するのは常に1つ", async () => {
+    const lockPath = join(dir, "contention.lock");
+    let holders = 0;
+    let maxHolders = 0;
+    let completed = 0;
+
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        withFileLock(
+          lockPath,
+          async () => {
+            holders++;
+            maxHolders = Math.max(maxHolders, holders);
+            await sleep(10);
+            holders--;
+            completed++;
+          },
+          { retryMs: 5 }
+        )
+      )
+    );
+
+    assert.equal(maxHolders, 1);
+    assert.equal(completed, 5);
+    assert.equal(existsSync(lockPath), false);
+  });
+
+  it("保持プロセスが終了したロックは取り直す", async () => {
+    const lockPath = join(dir, "dead.lock");
+    writeFileSync(lockPath, `${deadPid()}\nforeign`);
+
+    const result = await withFileLock(lockPath, async () => "acquired", { timeoutMs: 1000 });
+
+    assert.equal(result, "acquired");
+    assert.equal(existsSync(lockPath), false);
+  });
+
+  it("staleMs より古いロックは取り直す", () => {
+    const lockPath = join(dir, "old.lock");
+    writeFileSync(lockPath, `${process.pid}\nforeign`);
+    const old = new Date(Date.now() - 60000);
+    utimesSync(lockPath, old, old);
+
+    const result = withFileLockSync(lockPath, () => "acquired", { timeoutMs: 1000, staleMs: 5000 });
+
+    assert.equal(result, "acquired");
+  });
+
+  it("生存しているプロセスの新しいロックはタイムアウトまで待つ", async () => {
+    const lockPath = join(dir, "held.lock");
+    writeFileSync(lockPath, `${process.pid}\nforeign`);
+
+    await assert.rejects(
+      withFileLock(lockPath, async () => "acquired", { timeoutMs: 100, retryMs: 10 }),
+      /lock/i
+    );
+    assert.equal(readFileSync(lockPath, "utf-8"), `${process.pid}\nforeign`);
+    rmSync(lockPath);
+  });
+
+  it("他のプロセスが取り直したロックは解放時に削除しない", async () => {
+    const lockPath = join(dir, "taken.lock");
+
+    await withFileLock(lockPath, async () => {
+      // stale として削除され、別のプロセスが取得した状態
+      writeFileSync(lockPath, `${process.pid}\nforeign`);
+    });
+
+    assert.equal(readFileSync(lockPath, "utf-8"), `${process.pid}\nforeign`);
+    rmSync(lockPath);
+  });
+
+  it("保持中は staleMs を過ぎても奪われない", async () => {
+    const lockPath = join(dir, "heartbeat.lock");
+    let secondAcquired = false;
+
+    await withFileLock(
+      lockPath,
+      async () => {
+        await sleep(300);
+        // 保持中のロックの更新時刻は進められているため、staleMs を過ぎても取得できない
+        await assert.rejects(
+          withFileLock(
+            lockPath,
+            async () => {
+              secondAcquired = true;
+            },
+            { timeoutMs: 100, staleMs: 200, retryMs: 10 }
+          )
+        );
+      },
+      { staleMs: 200, retryMs: 10 }
+    );
+
+    assert.equal(secondAcquired, false);
+  });
+});
@@ -0,0 +1,10 @@
+import { ThreadStore } from "../../src/lib/thread-store.js";
+
+// 使い方: node record-events.js <状態ファイル> <job_id> <件数>
+const [persistPath, jobId, count] = process.argv.slice(2);
+const threadStore = new ThreadStore(persistPath, 0);
+
+for (let i = 0; i < Number(count); i++) {
+  threadStore.recordEvent(jobId, { type: "update", message: `${process.pid}-${i}` });
+}
+threadStore.close();
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { decideMention, MentionPolicy, MentionTargets, parseMentionPolicy } from "../src/lib/mention-policy.js";
+
+const targets: MentionTargets = { userIds: ["U1", "U2"], groupIds: [], useChannelMention: true };
+
+// Asia/Tokyo (UTC+9) での日時
+const MONDAY_NOON = new Date("2025-01-06T03:00:00Z"); // 月曜 12:00
+const MONDAY_NIGHT = new Date("2025-01-06T14:00:00Z"); // 月曜 23:00
+const MONDAY_EVENING = new Date("2025-01-06T10:00:00Z"); // 月曜 19:00
+const SATURDAY_NOON = new Date("2025-01-11T03:00:00Z"); // 土曜 12:00
+
+describe("decideMention", () => {
+  describe("静かな時間帯", () => {
+    const policy: MentionPolicy = {
+      timezone: "Asia/Tokyo",
+      quietHours: { start: "22:00", end: "08:00" },
+      quietDays: ["sat", "sun"],
+      rules: [{ events: ["fail"], mention: true, urgent: true }],
+    };
+
+    it("時間帯の外ではメンションする", () => {
+      const decision = decideMention(policy, targets, {
+        event: "complete",
+        requested: true,
+        channel: "C1",
+        now: MONDAY_NOON,
+      });
+      assert.deepEqual(decision.userIds, ["U1", "U2"]);
+      assert.equal(decision.skipped, undefined);
+    });
+
+    it("日付をまたぐ時間帯・曜日はメンションしない", () => {
+      for (const now of [MONDAY_NIGHT, SATURDAY_NOON]) {
+        const decision = decideMention(policy, targets, {
+          event: "complete",
+          requested: true,
+          channel: "C1",
+          now,
+        });
+        assert.equal(decision.skipped, "quiet_hours");
+        assert.deepEqual(decision.userIds, []);
+      }
+    });
+
+    it("urgent のルールは静かな時間帯でもメンションする", () => {
+      const decision = decideMention(policy, targets, {
+        event: "fail",
+        requested: false,
+        channel: "C1",
+        now: MONDAY_NIGHT,
+      });
+      assert.deepEqual(decision.userIds, ["U1", "U2"]);
+      assert.equal(decision.rule, 0);
+    });
+  });
+
+  describe("勤務時間", () => {
+    const policy: MentionPolicy = {
+      timezone: "Asia/Tokyo",
+      users: {
+        U1: { hours: { start: "09:00", end: "18:00" }, days: ["mon", "tue", "wed", "thu", "fri"] },
+        U2: { timezone: "America/Los_Angeles", hours: { start: "09:00", end: "17:00" } },
+      },
+    };
+
+    it("勤務時間外のユーザーを除く", () => {
+      // 月曜 12:00 (Asia/Tokyo) は日曜 19:00 (America/Los_Angeles)
+      const decision = decideMention(policy, targets, {
+        event: "complete",
+        requested: true,
+        channel: "C1",
+        now: MONDAY_NOON,
+      });
+      assert.deepEqual(decision.userIds, ["U1"]);
+    });
+
+    it("全員が時間外の場合は @channel にせずメンションしない", () => {
+      const decision = decideMention(policy, targets, {
+        event: "complete",
+        requested: true,
+        channel: "C1",
+        now: MONDAY_EVENING,
+      });
+      assert.equal(decision.skipped, "outside_working_hours");
+      assert.equal(decision.channel, false);
+    });
+
+    it("個別のメンション先がなければ @channel", () => {
+      const decision = decideMention(
+        policy,
+        { userIds: [], groupIds: [], useChannelMention: true },
+        { event: "complete", requested: true, channel: "C1", now: MONDAY_EVENING }
+      );
+      assert.equal(decision.channel, true);
+    });
+  });
+
+  it("hookEvents のルールはフックイベントが一致する場合のみ使う", () => {
+    const policy = parseMentionPolicy({ rules: [{ hookEvents: ["SessionEnd"], mention: false }] });
+    const decide = (hookEvent?: string) =>
+      decideMention(policy, targets, { event: "complete", requested: true, channel: "C1", hookEvent });
+
+    assert.equal(decide("SessionEnd").skipped, "not_requested");
+    assert.deepEqual(decide("Stop").userIds, ["U1", "U2"]);
+    assert.deepEqual(decide(undefined).userIds, ["U1", "U2"]);
+  });
+});
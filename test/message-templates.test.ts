@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { renderPlainTemplate, renderTemplate } from "../src/lib/message-templates.js";
+
+describe("renderTemplate", () => {
+  it("プレースホルダーに値を埋め込み、値のないものは空文字にする", () => {
+    assert.equal(renderTemplate("*Done:* {{title}}{{missing}}", { title: "Build" }), "*Done:* Build");
+  });
+
+  it("区間は値がある場合のみ出力する", () => {
+    const template = "{{title}}{{#duration}} ({{duration}}){{/duration}}";
+    assert.equal(renderTemplate(template, { title: "Build", duration: "3m 10s" }), "Build (3m 10s)");
+    assert.equal(renderTemplate(template, { title: "Build", duration: "" }), "Build");
+    assert.equal(renderTemplate(template, { title: "Build" }), "Build");
+  });
+
+  it("埋め込んだ値に含まれる {{...}} は展開しない", () => {
+    assert.equal(
+      renderTemplate("{{summary}}{{#details}}: {{details}}{{/details}}", {
+        summary: "use {{details}} and {{#x}}y{{/x}}",
+        details: "d",
+      }),
+      "use {{details}} and {{#x}}y{{/x}}: d"
+    );
+  });
+
+  it("renderPlainTemplate はテンプレートの * のみ取り除く", () => {
+    assert.equal(renderPlainTemplate("*Started:* {{title}}", { title: "a*b" }), "Started: a*b");
+  });
+});
@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import { Notifier, ReplyResult, RetryableNotifierError } from "../src/lib/notifier.js";
+import { Outbox, OutboxOperation, replayOutbox } from "../src/lib/outbox.js";
+import { ThreadStore } from "../src/lib/thread-store.js";
+
+const dir = mkdtempSync(join(tmpdir(), "outbox-test-"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function update(message: string): OutboxOperation {
+  return {
+    type: "upsertThreadReply",
+    channel: "C1",
+    message,
+    level: "info",
+    mention: false,
+    upsert: false,
+    progressAfter: "keep",
+  };
+}
+
+/**
+ * 送信した進捗メッセージを記録するだけの通知先（blocked に含まれるジョブへの送信は一時的な障害として失敗する）
+ */
+function recordingNotifier(blocked: Set<string>): { notifier: Notifier; sent: string[] } {
+  const sent: string[] = [];
+  let counter = 0;
+  const notifier = {
+    setHookEvent: () => {},
+    upsertThreadReply: async (
+      _channel: string,
+      _threadTs: string,
+      message: string,
+      _level: unknown,
+      _mention: unknown,
+      _messageTs: unknown,
+      _progress: unknown,
+      jobId: string
+    ): Promise<ReplyResult> => {
+      if (blocked.has(jobId)) {
+        throw new RetryableNotifierError("service unavailable");
+      }
+      sent.push(message);
+      return { ok: true, ts: `2.${String(++counter).padStart(6, "0")}` };
+    },
+    updateParentMessage: async (_channel: string, threadTs: string): Promise<ReplyResult> => ({
+      ok: true,
+      ts: threadTs,
+    }),
+  } as unknown as Notifier;
+  return { notifier, sent };
+}
+
+function setup(name: string): { outbox: Outbox; threadStore: ThreadStore } {
+  const threadStore = new ThreadStore(join(dir, `${name}.json`), 0);
+  threadStore.create("a", "C1", "1.000001", "A");
+  threadStore.create("b", "C1", "1.000002", "B");
+  const outbox = new Outbox(join(dir, `${name}.outbox.json`));
+  outbox.enqueue("a", update("a1"));
+  outbox.enqueue("b", update("b1"));
+  outbox.enqueue("a", update("a2"));
+  outbox.enqueue("b", update("b2"));
+  return { outbox, threadStore };
+}
+
+describe("replayOutbox", () => {
+  it("送信できないジョブがあっても他のジョブの操作を順に再送する", async () => {
+    const { outbox, threadStore } = setup("blocked");
+    const { notifier, sent } = recordingNotifier(new Set(["a"]));
+
+    const summary = await replayOutbox(outbox, notifier, threadStore);
+
+    assert.deepEqual(sent, ["b1", "b2"]);
+    assert.deepEqual(summary, { delivered: 2, dropped: 0, remaining: 2 });
+    // 送信できなかったジョブの操作は順序を保って残る
+    const remaining = outbox.list();
+    assert.deepEqual(
+      remaining.map((e) => e.operation.type === "upsertThreadReply" && e.operation.message),
+      ["a1", "a2"]
+    );
+    assert.equal(remaining[0].attempts, 1);
+    assert.equal(remaining[1].attempts, 0);
+  });
+
+  it("障害が解消した後はジョブごとに記録した順に再送する", async () => {
+    const { outbox, threadStore } = setup("recovered");
+    const blocked = new Set(["a"]);
+    const { notifier, sent } = recordingNotifier(blocked);
+    await replayOutbox(outbox, notifier, threadStore);
+
+    blocked.clear();
+    // 失敗した操作は次回送信可能時刻（2秒後）まで待ってから再送する
+    const summary = await replayOutbox(outbox, notifier, threadStore, { wait: true, maxWaitMs: 5000 });
+
+    assert.deepEqual(sent, ["b1", "b2", "a1", "a2"]);
+    assert.deepEqual(summary, { delivered: 2, dropped: 0, remaining: 0 });
+    assert.equal(threadStore.get("a")?.status, "in_progress");
+  });
+});
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import { ThreadStore } from "../src/lib/thread-store.js";
+
+const dir = mkdtempSync(join(tmpdir(), "thread-store-test-"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+const RECORD_EVENTS = fileURLToPath(new URL("./fixtures/record-events.js", import.meta.url));
+
+function run(args: string[]): Promise<number | null> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [RECORD_EVENTS, ...args], { stdio: "inherit" });
+    child.on("error", reject);
+    child.on("exit", resolve);
+  });
+}
+
+describe("ThreadStore.update", () => {
+  it("複数プロセスから同時に更新しても変更が失われない", async () => {
+    const persistPath = join(dir, "state.json");
+    const store = new ThreadStore(persistPath, 0);
+    store.create("job", "C1", "1.000001", "Title");
+
+    const codes = await Promise.all(Array.from({ length: 4 }, () => run([persistPath, "job", "20"])));
+    assert.deepEqual(codes, [0, 0, 0, 0]);
+
+    store.reload();
+    const events = store.get("job")?.events ?? [];
+    assert.equal(events.length, 80);
+    assert.equal(new Set(events.map((e) => e.message)).size, 80);
+  });
+
+  it("同じプロセス内の withJobLock は順に実行する", async () => {
+    const store = new ThreadStore(join(dir, "lock.json"), 0);
+    const order: string[] = [];
+
+    await Promise.all(
+      ["a", "b", "c"].map((name) =>
+        store.withJobLock("job", async () => {
+          order.push(`${name}:start`);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          order.push(`${name}:end`);
+        })
+      )
+    );
+
+    assert.deepEqual(order, ["a:start", "a:end", "b:start", "b:end", "c:start", "c:end"]);
+  });
+});